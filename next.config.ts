@@ -1,7 +1,12 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // pdfkit reads its font metrics from files next to its own code, so it can't be bundled
+  serverExternalPackages: ["pdfkit"],
+  // The Nastaliq font for PDF and Word exports is read from node_modules at runtime
+  outputFileTracingIncludes: {
+    "/api/export": ["./node_modules/@expo-google-fonts/noto-nastaliq-urdu/400Regular/*.ttf"],
+  },
 };
 
 export default nextConfig;
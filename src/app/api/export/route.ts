@@ -0,0 +1,78 @@
+import {
+  ExportError,
+  ExportFile,
+  ExportFormat,
+  ExportItem,
+  isExportFormat,
+  loadExportItems,
+  MAX_EXPORT_ITEMS,
+  parseExportItems,
+  renderExport
+} from '@/lib/export';
+import { NextResponse } from 'next/server';
+
+function errorResponse(error: unknown) {
+  if (error instanceof ExportError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+  }
+  console.error('Export failed:', error);
+  return NextResponse.json({ success: false, error: 'Server error' }, { status: 500 });
+}
+
+function fileResponse(file: ExportFile) {
+  return new NextResponse(new Uint8Array(file.body), {
+    headers: {
+      'Content-Type': file.contentType,
+      'Content-Disposition': `attachment; filename="${file.filename}"`
+    }
+  });
+}
+
+function parseFormat(value: unknown): ExportFormat {
+  if (!isExportFormat(value)) {
+    throw new ExportError('"format" must be md, html, pdf, docx or json');
+  }
+  return value;
+}
+
+function parseIds(value: unknown): string[] {
+  const ids = Array.isArray(value) ? value : [];
+  if (ids.length === 0 || ids.some(id => typeof id !== 'string' || !id.trim())) {
+    throw new ExportError('"ids" must be a non-empty list of summary ids');
+  }
+  if (ids.length > MAX_EXPORT_ITEMS) {
+    throw new ExportError(`At most ${MAX_EXPORT_ITEMS} summaries can be exported at once`);
+  }
+  return ids.map(id => id.trim());
+}
+
+// Downloads stored summaries: ?ids=a,b&format=pdf
+export async function GET(req: Request) {
+  try {
+    const params = new URL(req.url).searchParams;
+    const format = parseFormat(params.get('format') || 'md');
+    const ids = parseIds((params.get('ids') || '').split(',').filter(Boolean));
+    return fileResponse(await renderExport(await loadExportItems(ids), format));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Body: { format, ids } for stored summaries, or { format, summaries } for results sent as-is
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => {
+      throw new ExportError('Request body must be JSON');
+    });
+    const format = parseFormat(body.format);
+    let items: ExportItem[];
+    if (body.summaries !== undefined) {
+      items = parseExportItems(body.summaries);
+    } else {
+      items = await loadExportItems(parseIds(body.ids));
+    }
+    return fileResponse(await renderExport(items, format));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,27 @@
+import { checkFeed, getFeed } from '@/lib/feeds';
+import { ApiAccessError, authorizeRequest } from '@/lib/apiKeys';
+import { NextResponse } from 'next/server';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Fetches the feed again and records entries that were not seen before
+export async function POST(req: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const feed = await getFeed(id).catch(() => null);
+  if (!feed) {
+    return NextResponse.json({ success: false, error: 'Feed not found' }, { status: 404 });
+  }
+
+  try {
+    await authorizeRequest(req, 'feeds');
+    return NextResponse.json({ success: true, ...(await checkFeed(feed)) });
+  } catch (error: any) {
+    if (error instanceof ApiAccessError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status, headers: error.headers });
+    }
+    console.error('Error checking feed:', error);
+    return NextResponse.json({ success: false, error: error.message || 'Could not read feed' }, { status: 422 });
+  }
+}
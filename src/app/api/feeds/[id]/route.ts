@@ -0,0 +1,39 @@
+import { deleteFeed, getFeed, listFeedEntries } from '@/lib/feeds';
+import { ApiAccessError, authorizeAdmin } from '@/lib/apiKeys';
+import { NextResponse } from 'next/server';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const feed = await getFeed(id);
+
+    if (!feed) {
+      return NextResponse.json({ success: false, error: 'Feed not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, feed, entries: await listFeedEntries({ feedId: id }) });
+  } catch (error) {
+    console.error('Error loading feed:', error);
+    return NextResponse.json({ success: false, error: 'Server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request, { params }: RouteContext) {
+  try {
+    authorizeAdmin(req);
+    const { id } = await params;
+    if (!(await deleteFeed(id))) {
+      return NextResponse.json({ success: false, error: 'Feed not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof ApiAccessError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status, headers: error.headers });
+    }
+    console.error('Error deleting feed:', error);
+    return NextResponse.json({ success: false, error: 'Server error' }, { status: 500 });
+  }
+}
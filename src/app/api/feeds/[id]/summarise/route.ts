@@ -0,0 +1,49 @@
+import { getFeed, listFeedEntries, markEntriesSeen } from '@/lib/feeds';
+import { createJob, getJobProgress, MAX_BATCH_SIZE } from '@/lib/jobs';
+import { parsePipelineOptions } from '@/lib/pipeline';
+import { ApiAccessError, authorizeRequest } from '@/lib/apiKeys';
+import { NextResponse } from 'next/server';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Body: { entryIds?: string[] } plus pipeline options. Without entryIds every new
+// entry of the feed is summarised. Runs as a batch job (see /api/jobs/:id).
+export async function POST(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body = await req.json().catch(() => ({}));
+
+    if (!(await getFeed(id))) {
+      return NextResponse.json({ success: false, error: 'Feed not found' }, { status: 404 });
+    }
+
+    const { options, error } = parsePipelineOptions(body);
+    if (error) {
+      return NextResponse.json({ success: false, error }, { status: 400 });
+    }
+
+    const wanted = Array.isArray(body.entryIds) ? new Set(body.entryIds.map(String)) : null;
+    const entries = (await listFeedEntries({ feedId: id, onlyNew: !wanted }))
+      .filter(entry => !wanted || wanted.has(entry.id))
+      .slice(0, MAX_BATCH_SIZE);
+
+    if (entries.length === 0) {
+      return NextResponse.json({ success: false, error: 'No entries to summarise' }, { status: 400 });
+    }
+
+    // Each entry counts against the daily quota, as URLs in a batch do
+    await authorizeRequest(req, 'feeds', entries.length);
+
+    const job = await createJob(entries.map(entry => entry.url), options);
+    await markEntriesSeen(entries.map(entry => entry.id));
+    return NextResponse.json({ success: true, job, progress: getJobProgress(job) }, { status: 202 });
+  } catch (error) {
+    if (error instanceof ApiAccessError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status, headers: error.headers });
+    }
+    console.error('Error summarising feed entries:', error);
+    return NextResponse.json({ success: false, error: 'Server error' }, { status: 500 });
+  }
+}
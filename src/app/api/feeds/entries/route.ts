@@ -0,0 +1,17 @@
+import { listFeedEntries } from '@/lib/feeds';
+import { NextResponse } from 'next/server';
+
+const MAX_LIMIT = 100;
+
+// Latest entries across all feeds; ?new=1 returns only entries not yet summarised
+export async function GET(req: Request) {
+  try {
+    const params = new URL(req.url).searchParams;
+    const limit = Math.min(MAX_LIMIT, Math.max(1, Number(params.get('limit')) || 20));
+    const entries = await listFeedEntries({ onlyNew: params.get('new') === '1', limit });
+    return NextResponse.json({ success: true, entries });
+  } catch (error) {
+    console.error('Error listing feed entries:', error);
+    return NextResponse.json({ success: false, error: 'Server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { listFeeds, registerFeed } from '@/lib/feeds';
+import { FetchPolicyError } from '@/lib/fetchGuard';
+import { ApiAccessError, authorizeRequest } from '@/lib/apiKeys';
+import { NextResponse } from 'next/server';
+
+export async function GET() {
+  try {
+    return NextResponse.json({ success: true, feeds: await listFeeds() });
+  } catch (error) {
+    console.error('Error listing feeds:', error);
+    return NextResponse.json({ success: false, error: 'Server error' }, { status: 500 });
+  }
+}
+
+// Body: { url } of an RSS/Atom feed or a sitemap. Registering an existing feed re-checks it.
+export async function POST(req: Request) {
+  const { url } = await req.json().catch(() => ({}));
+  if (!url || typeof url !== 'string' || !/^https?:\/\//i.test(url)) {
+    return NextResponse.json({ success: false, error: 'A valid feed or sitemap URL is required' }, { status: 400 });
+  }
+
+  try {
+    await authorizeRequest(req, 'feeds');
+    const result = await registerFeed(url);
+    return NextResponse.json({ success: true, ...result }, { status: 201 });
+  } catch (error: any) {
+    if (error instanceof ApiAccessError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status, headers: error.headers });
+    }
+    console.error('Error registering feed:', error);
+    if (error instanceof FetchPolicyError) {
+      return NextResponse.json({ success: false, error: error.message, errorCode: error.code }, { status: error.status });
+    }
+    return NextResponse.json({ success: false, error: error.message || 'Could not read feed' }, { status: 422 });
+  }
+}
@@ -0,0 +1,41 @@
+import { deleteGlossaryEntry, GlossaryError, updateGlossaryEntry } from '@/lib/glossary';
+import { ApiAccessError, authorizeAdmin } from '@/lib/apiKeys';
+import { NextResponse } from 'next/server';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function errorResponse(error: unknown) {
+  if (error instanceof ApiAccessError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: error.status, headers: error.headers });
+  }
+  if (error instanceof GlossaryError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+  }
+  console.error('Glossary request failed:', error);
+  return NextResponse.json({ success: false, error: 'Server error' }, { status: 500 });
+}
+
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    authorizeAdmin(req);
+    const { id } = await params;
+    const { language, source, target } = await req.json();
+    const entry = await updateGlossaryEntry(id, { language, source, target });
+    return NextResponse.json({ success: true, entry });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(req: Request, { params }: RouteContext) {
+  try {
+    authorizeAdmin(req);
+    const { id } = await params;
+    await deleteGlossaryEntry(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
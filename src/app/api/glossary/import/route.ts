@@ -0,0 +1,33 @@
+import { GlossaryError, importGlossary } from '@/lib/glossary';
+import { ApiAccessError, authorizeAdmin } from '@/lib/apiKeys';
+import { NextResponse } from 'next/server';
+
+// Body: { format: 'csv' | 'json', data: string, mode?: 'merge' | 'replace' }
+export async function POST(req: Request) {
+  try {
+    authorizeAdmin(req);
+    const { format, data, mode } = await req.json();
+
+    if (format !== 'csv' && format !== 'json') {
+      return NextResponse.json({ success: false, error: '"format" must be csv or json' }, { status: 400 });
+    }
+    if (typeof data !== 'string' || !data.trim()) {
+      return NextResponse.json({ success: false, error: '"data" must be a non-empty string' }, { status: 400 });
+    }
+    if (mode !== undefined && mode !== 'merge' && mode !== 'replace') {
+      return NextResponse.json({ success: false, error: '"mode" must be merge or replace' }, { status: 400 });
+    }
+
+    const result = await importGlossary(format, data, mode);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof ApiAccessError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status, headers: error.headers });
+    }
+    if (error instanceof GlossaryError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('Glossary import failed:', error);
+    return NextResponse.json({ success: false, error: 'Server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { addGlossaryEntry, exportGlossary, GlossaryError, listGlossary } from '@/lib/glossary';
+import { isLanguageCode } from '@/lib/languages';
+import { ApiAccessError, authorizeAdmin } from '@/lib/apiKeys';
+import { NextResponse } from 'next/server';
+
+function errorResponse(error: unknown) {
+  if (error instanceof ApiAccessError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: error.status, headers: error.headers });
+  }
+  if (error instanceof GlossaryError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+  }
+  console.error('Glossary request failed:', error);
+  return NextResponse.json({ success: false, error: 'Server error' }, { status: 500 });
+}
+
+// Lists entries, or downloads them when ?format=csv|json is given
+export async function GET(req: Request) {
+  try {
+    const params = new URL(req.url).searchParams;
+    const requested = params.get('language');
+    const format = params.get('format');
+
+    if (requested && !isLanguageCode(requested)) {
+      return NextResponse.json({ success: false, error: `Unsupported language "${requested}"` }, { status: 400 });
+    }
+    const language = isLanguageCode(requested) ? requested : undefined;
+
+    if (format === 'csv' || format === 'json') {
+      const body = await exportGlossary(format, language);
+      return new NextResponse(body, {
+        headers: {
+          'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+          'Content-Disposition': `attachment; filename="glossary${language ? `-${language}` : ''}.${format}"`
+        }
+      });
+    }
+    if (format) {
+      return NextResponse.json({ success: false, error: '"format" must be csv or json' }, { status: 400 });
+    }
+
+    const entries = await listGlossary(language);
+    return NextResponse.json({ success: true, entries });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    authorizeAdmin(req);
+    const { language, source, target } = await req.json();
+    const entry = await addGlossaryEntry({ language, source, target });
+    return NextResponse.json({ success: true, entry }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
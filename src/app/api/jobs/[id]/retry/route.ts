@@ -0,0 +1,36 @@
+import { getJob, getJobProgress, retryableItems, retryJob } from '@/lib/jobs';
+import { ApiAccessError, authorizeRequest } from '@/lib/apiKeys';
+import { NextResponse } from 'next/server';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Body (optional): { urls: string[] } to retry only those failed URLs
+export async function POST(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body = await req.json().catch(() => ({}));
+    const urls = Array.isArray(body.urls) ? body.urls.map(String) : undefined;
+
+    const existing = await getJob(id);
+    if (!existing) {
+      return NextResponse.json({ success: false, error: 'Job not found' }, { status: 404 });
+    }
+
+    // Each URL fetched again counts against the daily quota
+    await authorizeRequest(req, 'jobs', retryableItems(existing, urls).length);
+
+    const { job, retried } = await retryJob(id, urls);
+    if (!job) {
+      return NextResponse.json({ success: false, error: 'Job not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, retried, job, progress: getJobProgress(job) });
+  } catch (error) {
+    if (error instanceof ApiAccessError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status, headers: error.headers });
+    }
+    console.error('Error retrying job:', error);
+    return NextResponse.json({ success: false, error: 'Server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+import { getJob, getJobProgress } from '@/lib/jobs';
+import { NextResponse } from 'next/server';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const job = await getJob(id);
+
+    if (!job) {
+      return NextResponse.json({ success: false, error: 'Job not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, job, progress: getJobProgress(job) });
+  } catch (error) {
+    console.error('Error loading job:', error);
+    return NextResponse.json({ success: false, error: 'Server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { createJob, getJobProgress, MAX_BATCH_SIZE, parseUrlList } from '@/lib/jobs';
+import { parsePipelineOptions } from '@/lib/pipeline';
+import { ApiAccessError, authorizeRequest } from '@/lib/apiKeys';
+import { NextResponse } from 'next/server';
+
+// Accepts either JSON ({ urls: string[] } or { text: string } plus pipeline options)
+// or multipart form data with a text/CSV `file` and/or pasted `text`.
+export async function POST(req: Request) {
+  try {
+    let body: any;
+    let urls: string[] = [];
+
+    if ((req.headers.get('content-type') || '').includes('multipart/form-data')) {
+      const form = await req.formData();
+      const file = form.get('file');
+      const text = [
+        typeof form.get('text') === 'string' ? form.get('text') : '',
+        file && typeof file !== 'string' ? await file.text() : ''
+      ].join('\n');
+      urls = parseUrlList(text);
+      body = JSON.parse(String(form.get('options') || '{}'));
+    } else {
+      body = await req.json();
+      if (Array.isArray(body.urls)) {
+        urls = parseUrlList(body.urls);
+      } else if (typeof body.text === 'string') {
+        urls = parseUrlList(body.text);
+      }
+    }
+
+    if (urls.length === 0) {
+      return NextResponse.json({ success: false, error: 'No http(s) URLs were found in the request' }, { status: 400 });
+    }
+    if (urls.length > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { success: false, error: `A batch can contain at most ${MAX_BATCH_SIZE} URLs (got ${urls.length})` },
+        { status: 400 }
+      );
+    }
+
+    const { options, error } = parsePipelineOptions(body);
+    if (error) {
+      return NextResponse.json({ success: false, error }, { status: 400 });
+    }
+
+    // Each URL counts against the daily quota; only requests that will run are charged
+    await authorizeRequest(req, 'jobs', urls.length);
+
+    const job = await createJob(urls, options);
+    return NextResponse.json({ success: true, job, progress: getJobProgress(job) }, { status: 202 });
+  } catch (error) {
+    if (error instanceof ApiAccessError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status, headers: error.headers });
+    }
+    console.error('Error creating job:', error);
+    return NextResponse.json({ success: false, error: 'Server error' }, { status: 500 });
+  }
+}
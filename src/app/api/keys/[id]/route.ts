@@ -0,0 +1,53 @@
+import { ApiAccessError, authorizeAdmin, deleteApiKey, getApiKey, updateApiKey } from '@/lib/apiKeys';
+import { NextResponse } from 'next/server';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function errorResponse(error: unknown) {
+  if (error instanceof ApiAccessError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: error.status, headers: error.headers });
+  }
+  console.error('API key request failed:', error);
+  return NextResponse.json({ success: false, error: 'Server error' }, { status: 500 });
+}
+
+export async function GET(req: Request, { params }: RouteContext) {
+  try {
+    authorizeAdmin(req);
+    const { id } = await params;
+    const key = await getApiKey(id);
+
+    if (!key) {
+      return NextResponse.json({ success: false, error: 'API key not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, key });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Body: any of { name, rateLimit, dailyQuota, revoked }; a null limit restores the default
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    authorizeAdmin(req);
+    const { id } = await params;
+    const { name, rateLimit, dailyQuota, revoked } = await req.json().catch(() => ({}));
+    const key = await updateApiKey(id, { name, rateLimit, dailyQuota, revoked });
+    return NextResponse.json({ success: true, key });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(req: Request, { params }: RouteContext) {
+  try {
+    authorizeAdmin(req);
+    const { id } = await params;
+    await deleteApiKey(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
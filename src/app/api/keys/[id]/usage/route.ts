@@ -0,0 +1,28 @@
+import { ApiAccessError, authorizeAdmin, getApiKey, getApiUsage } from '@/lib/apiKeys';
+import { NextResponse } from 'next/server';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Daily request counts for a key, optionally limited to ?from=YYYY-MM-DD&to=YYYY-MM-DD
+export async function GET(req: Request, { params }: RouteContext) {
+  try {
+    authorizeAdmin(req);
+    const { id } = await params;
+    const query = new URL(req.url).searchParams;
+
+    if (!(await getApiKey(id))) {
+      return NextResponse.json({ success: false, error: 'API key not found' }, { status: 404 });
+    }
+    const usage = await getApiUsage(id, query.get('from') || undefined, query.get('to') || undefined);
+    const total = usage.reduce((sum, day) => sum + day.requests, 0);
+    return NextResponse.json({ success: true, usage, total });
+  } catch (error) {
+    if (error instanceof ApiAccessError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status, headers: error.headers });
+    }
+    console.error('Error loading API key usage:', error);
+    return NextResponse.json({ success: false, error: 'Server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { ApiAccessError, authorizeAdmin, createApiKey, listApiKeys } from '@/lib/apiKeys';
+import { NextResponse } from 'next/server';
+
+function errorResponse(error: unknown) {
+  if (error instanceof ApiAccessError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: error.status, headers: error.headers });
+  }
+  console.error('API key request failed:', error);
+  return NextResponse.json({ success: false, error: 'Server error' }, { status: 500 });
+}
+
+export async function GET(req: Request) {
+  try {
+    authorizeAdmin(req);
+    return NextResponse.json({ success: true, keys: await listApiKeys() });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Body: { name, rateLimit?, dailyQuota? }. The response's `secret` is the only copy of the key.
+export async function POST(req: Request) {
+  try {
+    authorizeAdmin(req);
+    const { name, rateLimit, dailyQuota } = await req.json().catch(() => ({}));
+    const { key, secret } = await createApiKey({ name, rateLimit, dailyQuota });
+    return NextResponse.json({ success: true, key, secret }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,23 @@
+import { clearScrapeCache } from '@/lib/scraper';
+import { getRulesFile, reloadSiteRules, SiteRuleError } from '@/lib/siteRules';
+import { ApiAccessError, authorizeAdmin } from '@/lib/apiKeys';
+import { NextResponse } from 'next/server';
+
+// Reads the rules file again after it was edited; cached pages are dropped so they are re-extracted
+export async function POST(req: Request) {
+  try {
+    authorizeAdmin(req);
+    const rules = reloadSiteRules();
+    clearScrapeCache();
+    return NextResponse.json({ success: true, file: getRulesFile(), rules });
+  } catch (error) {
+    if (error instanceof ApiAccessError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status, headers: error.headers });
+    }
+    if (error instanceof SiteRuleError) {
+      return NextResponse.json({ success: false, error: error.message, problems: error.problems }, { status: 400 });
+    }
+    console.error('Error reloading site rules:', error);
+    return NextResponse.json({ success: false, error: 'Server error' }, { status: 500 });
+  }
+}
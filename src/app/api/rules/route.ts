@@ -0,0 +1,14 @@
+import { getRulesFile, getSiteRules, SiteRuleError } from '@/lib/siteRules';
+import { NextResponse } from 'next/server';
+
+export async function GET() {
+  try {
+    return NextResponse.json({ success: true, file: getRulesFile(), rules: getSiteRules() });
+  } catch (error) {
+    if (error instanceof SiteRuleError) {
+      return NextResponse.json({ success: false, error: error.message, problems: error.problems }, { status: 500 });
+    }
+    console.error('Error loading site rules:', error);
+    return NextResponse.json({ success: false, error: 'Server error' }, { status: 500 });
+  }
+}
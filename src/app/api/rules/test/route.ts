@@ -0,0 +1,59 @@
+import { extractPage, fetchText } from '@/lib/scraper';
+import { findSiteRule, inspectRule, validateRule } from '@/lib/siteRules';
+import { FetchPolicyError } from '@/lib/fetchGuard';
+import { ApiAccessError, authorizeRequest } from '@/lib/apiKeys';
+import { NextResponse } from 'next/server';
+
+const PREVIEW_LENGTH = 1000;
+
+// Body: { url, rule? }. Tries `rule` (or the configured rule for the URL's domain) on the
+// live page and reports what each selector matched and the resulting extraction.
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => ({}));
+  const { url } = body;
+
+  if (!url || typeof url !== 'string' || !/^https?:\/\//i.test(url)) {
+    return NextResponse.json({ success: false, error: 'A valid "url" is required' }, { status: 400 });
+  }
+
+  let rule = findSiteRule(url);
+  if (body.rule !== undefined) {
+    const result = validateRule(body.rule);
+    if (!result.rule) {
+      return NextResponse.json({ success: false, error: 'Invalid rule', problems: result.problems }, { status: 400 });
+    }
+    rule = result.rule;
+  }
+
+  let html: string;
+  try {
+    await authorizeRequest(req, 'rules-test');
+    html = await fetchText(url);
+  } catch (error: any) {
+    if (error instanceof ApiAccessError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status, headers: error.headers });
+    }
+    if (error instanceof FetchPolicyError) {
+      return NextResponse.json({ success: false, error: error.message, errorCode: error.code }, { status: error.status });
+    }
+    return NextResponse.json({ success: false, error: error.message }, { status: 422 });
+  }
+
+  try {
+    const page = extractPage(html, url, rule);
+    return NextResponse.json({
+      success: true,
+      rule: rule || null,
+      matches: rule ? inspectRule(html, rule) : null,
+      metadata: page.metadata,
+      nextPage: page.nextPage,
+      confidence: page.confidence,
+      characters: page.content.length,
+      preview: page.content.slice(0, PREVIEW_LENGTH),
+      markdown: page.document.markdown
+    });
+  } catch (error) {
+    console.error('Error testing site rule:', error);
+    return NextResponse.json({ success: false, error: 'Server error' }, { status: 500 });
+  }
+}
@@ -1,12 +1,19 @@
 import { scrapeBlogText } from '@/lib/scraper'; // or correct path
 import { NextResponse } from 'next/server';
+import { fetchErrorStatus } from '@/lib/fetchGuard';
+import { ApiAccessError, authorizeRequest } from '@/lib/apiKeys';
 
 export async function POST(req: Request) {
   try {
-    const { url } = await req.json();
-    const result = await scrapeBlogText(url);
-    return NextResponse.json(result);
+    await authorizeRequest(req, 'scrape');
+    const { url, forceRefresh } = await req.json();
+    const result = await scrapeBlogText(url, { forceRefresh: Boolean(forceRefresh) });
+    // Refused fetches get the policy's status (403 blocked address or domain, 413, 415 and so on)
+    return NextResponse.json(result, { status: result.errorCode ? fetchErrorStatus(result.errorCode) : 200 });
   } catch (error) {
+    if (error instanceof ApiAccessError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status, headers: error.headers });
+    }
     return NextResponse.json({ success: false, error: 'Server error' }, { status: 500 });
   }
 }
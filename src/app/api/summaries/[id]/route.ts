@@ -0,0 +1,41 @@
+import { deleteSummary, getSummaryDetail } from '@/lib/history';
+import { ApiAccessError, authorizeAdmin } from '@/lib/apiKeys';
+import { NextResponse } from 'next/server';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const summary = await getSummaryDetail(id);
+
+    if (!summary) {
+      return NextResponse.json({ success: false, error: 'Summary not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, summary });
+  } catch (error) {
+    console.error('Error loading summary:', error);
+    return NextResponse.json({ success: false, error: 'Server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request, { params }: RouteContext) {
+  try {
+    authorizeAdmin(req);
+    const { id } = await params;
+    const deleted = await deleteSummary(id);
+
+    if (!deleted) {
+      return NextResponse.json({ success: false, error: 'Summary not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof ApiAccessError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status, headers: error.headers });
+    }
+    console.error('Error deleting summary:', error);
+    return NextResponse.json({ success: false, error: 'Server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { isHistoryDateField, listSummaries } from '@/lib/history';
+import { NextResponse } from 'next/server';
+
+// Date-only values (YYYY-MM-DD) cover the whole day when used as the end of the range
+function parseDate(value: string | null, endOfDay = false): Date | undefined | null {
+  if (!value) {
+    return undefined;
+  }
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const date = new Date(dateOnly && endOfDay ? `${value}T23:59:59.999Z` : value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export async function GET(req: Request) {
+  try {
+    const params = new URL(req.url).searchParams;
+    const from = parseDate(params.get('from'));
+    const to = parseDate(params.get('to'), true);
+
+    if (from === null || to === null) {
+      return NextResponse.json({ success: false, error: 'Invalid "from" or "to" date' }, { status: 400 });
+    }
+
+    const dateField = params.get('dateField') || 'createdAt';
+    const sort = params.get('sort') || 'createdAt';
+    if (!isHistoryDateField(dateField) || !isHistoryDateField(sort)) {
+      return NextResponse.json(
+        { success: false, error: '"dateField" and "sort" must be "createdAt" or "publishedAt"' },
+        { status: 400 }
+      );
+    }
+
+    const result = await listSummaries({
+      page: Number(params.get('page')) || undefined,
+      pageSize: Number(params.get('pageSize')) || undefined,
+      url: params.get('url') || undefined,
+      domain: params.get('domain') || undefined,
+      author: params.get('author') || undefined,
+      from,
+      to,
+      dateField,
+      sort
+    });
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error listing summaries:', error);
+    return NextResponse.json({ success: false, error: 'Server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,145 @@
+import {
+  parsePipelineOptions,
+  PipelineProgress,
+  PipelineProgressHandler,
+  PipelineResult,
+  runFilePipeline,
+  runPipeline,
+  runTextPipeline
+} from '@/lib/pipeline';
+import { MAX_UPLOAD_BYTES, UploadedFile } from '@/lib/sources';
+import { fetchErrorStatus } from '@/lib/fetchGuard';
+import { ApiAccessError, authorizeRequest } from '@/lib/apiKeys';
+import { NextResponse } from 'next/server';
+
+// Streamed responses are newline-delimited JSON: any number of
+// { type: 'progress', ...PipelineProgress } lines, then one { type: 'result', result } line,
+// or one { type: 'error', error } line if the pipeline failed outside its own error handling.
+const NDJSON = 'application/x-ndjson';
+
+type PipelineRun = (onProgress?: PipelineProgressHandler) => Promise<PipelineResult>;
+
+function streamPipeline(run: PipelineRun): Response {
+  const encoder = new TextEncoder();
+  // The pipeline still finishes (and saves) if the browser goes away mid-stream
+  let cancelled = false;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (
+        line: ({ type: 'progress' } & PipelineProgress) | { type: 'result'; result: PipelineResult } | { type: 'error'; error: string }
+      ) => {
+        if (!cancelled) {
+          controller.enqueue(encoder.encode(JSON.stringify(line) + '\n'));
+        }
+      };
+
+      // Not awaited, so progress lines are flushed while the pipeline runs
+      run(update => send({ type: 'progress', ...update }))
+        .then(result => send({ type: 'result', result }))
+        .catch(error => {
+          console.error('Error running pipeline:', error);
+          send({ type: 'error', error: 'Server error' });
+        })
+        .then(() => {
+          if (!cancelled) {
+            controller.close();
+          }
+        });
+    },
+    cancel() {
+      cancelled = true;
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': `${NDJSON}; charset=utf-8`,
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
+
+// Accepts JSON with a `url` or pasted `text` (plus an optional `format` of "html" or "text"),
+// or multipart form data with an uploaded `file` (PDF, Markdown, text or HTML) and the
+// pipeline options as JSON in an `options` field.
+// Send `Accept: application/x-ndjson` (or `"stream": true`) to receive progress as it happens
+export async function POST(req: Request) {
+  try {
+    await authorizeRequest(req, 'summarise');
+    let body: any;
+    let file: UploadedFile | undefined;
+
+    if ((req.headers.get('content-type') || '').includes('multipart/form-data')) {
+      const form = await req.formData();
+      const upload = form.get('file');
+      if (!upload || typeof upload === 'string') {
+        return NextResponse.json({ success: false, error: 'A "file" upload is required' }, { status: 400 });
+      }
+      if (upload.size > MAX_UPLOAD_BYTES) {
+        return NextResponse.json(
+          { success: false, error: `Files can be at most ${Math.round(MAX_UPLOAD_BYTES / 1024 / 1024)} MB` },
+          { status: 413 }
+        );
+      }
+      file = { name: upload.name || 'upload', type: upload.type, data: new Uint8Array(await upload.arrayBuffer()) };
+      try {
+        body = JSON.parse(String(form.get('options') || '{}'));
+      } catch {
+        body = undefined;
+      }
+      if (!body || typeof body !== 'object') {
+        return NextResponse.json({ success: false, error: 'The "options" field must be a JSON object' }, { status: 400 });
+      }
+    } else {
+      body = await req.json().catch(() => undefined);
+      if (!body || typeof body !== 'object') {
+        return NextResponse.json({ success: false, error: 'The request body must be a JSON object' }, { status: 400 });
+      }
+      if (typeof body.text === 'string') {
+        if (!body.text.trim()) {
+          return NextResponse.json({ success: false, error: 'The pasted "text" is empty' }, { status: 400 });
+        }
+        if (Buffer.byteLength(body.text, 'utf8') > MAX_UPLOAD_BYTES) {
+          return NextResponse.json(
+            { success: false, error: `Pasted text can be at most ${Math.round(MAX_UPLOAD_BYTES / 1024 / 1024)} MB` },
+            { status: 413 }
+          );
+        }
+        if (body.format !== undefined && body.format !== 'html' && body.format !== 'text') {
+          return NextResponse.json({ success: false, error: '"format" must be "html" or "text"' }, { status: 400 });
+        }
+      } else if (!body.url || typeof body.url !== 'string') {
+        return NextResponse.json({ success: false, error: 'A "url" or "text" string is required' }, { status: 400 });
+      }
+    }
+
+    const { options, error } = parsePipelineOptions(body);
+    if (error) {
+      return NextResponse.json({ success: false, error }, { status: 400 });
+    }
+
+    const run: PipelineRun = onProgress => {
+      if (file) {
+        return runFilePipeline(file, options, onProgress);
+      }
+      return typeof body.text === 'string'
+        ? runTextPipeline(body.text, body.format, options, onProgress)
+        : runPipeline(body.url, options, onProgress);
+    };
+
+    if (body.stream === true || (req.headers.get('accept') || '').includes(NDJSON)) {
+      return streamPipeline(run);
+    }
+
+    const result = await run();
+    const status = result.success ? 200 : result.errorCode ? fetchErrorStatus(result.errorCode) : 422;
+    return NextResponse.json(result, { status });
+  } catch (error) {
+    if (error instanceof ApiAccessError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status, headers: error.headers });
+    }
+    return NextResponse.json({ success: false, error: 'Server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,211 @@
+// app/batch/page.tsx - Summarise a whole list of URLs as one job
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/button';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/card';
+import { Badge } from '@/components/badge';
+import { Alert, AlertDescription } from '@/components/alert';
+import type { JobDocument, JobItemStatus, JobProgress } from '@/lib/jobs';
+import type { WithId } from '@/lib/storage';
+
+const POLL_INTERVAL = 2000;
+
+const statusColors: Record<JobItemStatus, string> = {
+  pending: 'bg-gray-500/20 text-gray-200 border-gray-500/30',
+  running: 'bg-blue-500/20 text-blue-200 border-blue-500/30',
+  succeeded: 'bg-green-500/20 text-green-200 border-green-500/30',
+  failed: 'bg-red-500/20 text-red-200 border-red-500/30'
+};
+
+export default function BatchPage() {
+  const [text, setText] = useState<string>('');
+  const [file, setFile] = useState<File | null>(null);
+  const [job, setJob] = useState<WithId<JobDocument> | null>(null);
+  const [progress, setProgress] = useState<JobProgress | null>(null);
+  const [submitting, setSubmitting] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  const applyResult = (result: any) => {
+    if (!result.success) {
+      throw new Error(result.error || 'Request failed');
+    }
+    setJob(result.job);
+    setProgress(result.progress);
+  };
+
+  // Jobs started elsewhere (e.g. from the feeds page) open as /batch?job=<id>
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get('job');
+    if (!id) {
+      return;
+    }
+    fetch(`/api/jobs/${encodeURIComponent(id)}`)
+      .then(response => response.json())
+      .then(applyResult)
+      .catch((err: any) => setError(err.message || 'Failed to load job'));
+  }, []);
+
+  const isRunning = job !== null && (job.status === 'queued' || job.status === 'running');
+
+  // Poll the job until every URL has finished
+  useEffect(() => {
+    if (!job || !isRunning) {
+      return;
+    }
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/jobs/${job.id}`);
+        const result = await response.json();
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to load job status');
+        }
+        setJob(result.job);
+        setProgress(result.progress);
+      } catch (err: any) {
+        setError(err.message || 'Failed to load job status');
+      }
+    }, POLL_INTERVAL);
+    return () => clearTimeout(timer);
+  }, [job, isRunning]);
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setError('');
+
+    try {
+      const form = new FormData();
+      form.set('text', text);
+      if (file) {
+        form.set('file', file);
+      }
+      const response = await fetch('/api/jobs', { method: 'POST', body: form });
+      applyResult(await response.json());
+    } catch (err: any) {
+      setError(err.message || 'Failed to start batch');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRetry = async (url?: string) => {
+    if (!job) {
+      return;
+    }
+    setError('');
+
+    try {
+      const response = await fetch(`/api/jobs/${job.id}/retry`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(url ? { urls: [url] } : {}),
+      });
+      applyResult(await response.json());
+    } catch (err: any) {
+      setError(err.message || 'Failed to retry');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-900 via-purple-900 to-indigo-900 p-6">
+      <div className="max-w-4xl mx-auto">
+        <Card className="bg-white/10 backdrop-blur-lg border-white/20 shadow-xl">
+          <CardHeader className="text-center">
+            <CardTitle className="text-3xl font-bold text-white mb-2">
+              Batch Summaries
+            </CardTitle>
+            <p className="text-white/80">
+              Paste URLs (one per line) or upload a text/CSV file. <Link href="/" className="text-blue-300 underline">Back to summarizer</Link>
+            </p>
+          </CardHeader>
+
+          <CardContent className="space-y-6 overflow-x-hidden">
+            <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4 space-y-3">
+              <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                rows={6}
+                placeholder={'https://www.ycombinator.com/blog/...\nhttps://example.com/article'}
+                className="w-full rounded bg-white/10 border border-white/20 text-white placeholder:text-white/50 p-2 text-sm"
+                disabled={submitting || isRunning}
+              />
+              <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                <input
+                  type="file"
+                  accept=".txt,.csv,text/plain,text/csv"
+                  onChange={(e) => setFile(e.target.files?.[0] || null)}
+                  className="flex-1 text-sm text-white/70"
+                  disabled={submitting || isRunning}
+                />
+                <Button
+                  onClick={handleSubmit}
+                  disabled={submitting || isRunning || (!text.trim() && !file)}
+                  className="bg-blue-600 hover:bg-blue-700 px-6 min-w-[120px] disabled:opacity-50"
+                >
+                  {submitting ? 'Submitting...' : 'Start batch'}
+                </Button>
+              </div>
+            </div>
+
+            {error && (
+              <Alert className="bg-red-500/20 border-red-500/50">
+                <AlertDescription className="text-red-200">
+                  <strong>Error:</strong> {error}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {job && progress && (
+              <div className="space-y-4">
+                <div className="bg-blue-500/20 border border-blue-500/50 rounded-lg p-4">
+                  <div className="flex items-center justify-between gap-3">
+                    <p className="text-blue-200">
+                      Job {job.status}: {progress.succeeded + progress.failed} of {progress.total} done
+                      ({progress.succeeded} succeeded, {progress.failed} failed)
+                    </p>
+                    {progress.failed > 0 && !isRunning && (
+                      <Button size="sm" className="bg-black/50 hover:bg-black/70 text-white" onClick={() => handleRetry()}>
+                        Retry all failed
+                      </Button>
+                    )}
+                  </div>
+                  <div className="mt-2 bg-blue-900/50 rounded-full h-2">
+                    <div
+                      className="bg-blue-400 h-2 rounded-full transition-all duration-300"
+                      style={{ width: `${progress.total ? ((progress.succeeded + progress.failed) / progress.total) * 100 : 0}%` }}
+                    ></div>
+                  </div>
+                </div>
+
+                {job.items.map(item => (
+                  <Card key={item.url} className="bg-white/10 backdrop-blur-sm border-white/20">
+                    <CardContent className="p-4 space-y-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="text-xs text-blue-300 truncate flex-1">{item.title || item.url}</p>
+                        <Badge variant="outline" className={`text-xs ${statusColors[item.status]}`}>
+                          {item.status}{item.attempts > 1 ? ` (attempt ${item.attempts})` : ''}
+                        </Badge>
+                        {item.status === 'failed' && (
+                          <Button size="sm" className="bg-black/50 hover:bg-black/70 text-white" onClick={() => handleRetry(item.url)}>
+                            Retry
+                          </Button>
+                        )}
+                      </div>
+                      {item.summary && <p className="text-white/90 text-sm leading-relaxed">{item.summary}</p>}
+                      {item.error && <p className="text-red-200 text-sm">{item.error}</p>}
+                    </CardContent>
+                  </Card>
+                ))}
+
+                <p className="text-white/60 text-sm text-center">
+                  Finished summaries are saved to <Link href="/history" className="text-blue-300 underline">history</Link>.
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+// app/feeds/page.tsx - Register RSS/Atom feeds and sitemaps and summarise their entries
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Input } from '@/components/input';
+import { Button } from '@/components/button';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/card';
+import { Badge } from '@/components/badge';
+import { Alert, AlertDescription } from '@/components/alert';
+import type { FeedEntryDocument, FeedSummary } from '@/lib/feeds';
+import type { WithId } from '@/lib/storage';
+
+async function request(input: string, init?: RequestInit) {
+  const response = await fetch(input, init);
+  const result = await response.json();
+  if (!result.success) {
+    throw new Error(result.error || `API error: ${response.status}`);
+  }
+  return result;
+}
+
+export default function FeedsPage() {
+  const router = useRouter();
+  const [feeds, setFeeds] = useState<FeedSummary[]>([]);
+  const [feedUrl, setFeedUrl] = useState<string>('');
+  const [selected, setSelected] = useState<string | null>(null);
+  const [entries, setEntries] = useState<WithId<FeedEntryDocument>[]>([]);
+  const [onlyNew, setOnlyNew] = useState<boolean>(true);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [message, setMessage] = useState<string>('');
+  const [error, setError] = useState<string>('');
+
+  const loadFeeds = useCallback(async () => {
+    try {
+      const result = await request('/api/feeds');
+      setFeeds(result.feeds);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load feeds');
+    }
+  }, []);
+
+  const loadEntries = useCallback(async () => {
+    if (!selected) {
+      setEntries([]);
+      return;
+    }
+    try {
+      const result = await request(`/api/feeds/${selected}`);
+      setEntries(result.entries);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load entries');
+    }
+  }, [selected]);
+
+  useEffect(() => {
+    loadFeeds();
+  }, [loadFeeds]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const runAction = async (action: () => Promise<string | void>) => {
+    setBusy(true);
+    setError('');
+    setMessage('');
+    try {
+      const success = await action();
+      if (success) {
+        setMessage(success);
+      }
+      await Promise.all([loadFeeds(), loadEntries()]);
+    } catch (err: any) {
+      setError(err.message || 'Request failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAdd = () => runAction(async () => {
+    const result = await request('/api/feeds', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url: feedUrl.trim() }),
+    });
+    setFeedUrl('');
+    setSelected(result.feed.id);
+    return `${result.feed.title}: ${result.added} new of ${result.total} entries`;
+  });
+
+  const handleCheck = (feed: FeedSummary) => runAction(async () => {
+    const result = await request(`/api/feeds/${feed.id}/check`, { method: 'POST' });
+    return `${feed.title}: ${result.added} new entries`;
+  });
+
+  const handleDelete = (feed: FeedSummary) => runAction(async () => {
+    await request(`/api/feeds/${feed.id}`, { method: 'DELETE' });
+    if (selected === feed.id) {
+      setSelected(null);
+    }
+    return `Removed ${feed.title}`;
+  });
+
+  // Summaries run as a batch job; follow its progress on the batch page
+  const handleSummarise = (entryIds?: string[]) => runAction(async () => {
+    const result = await request(`/api/feeds/${selected}/summarise`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(entryIds ? { entryIds } : {}),
+    });
+    router.push(`/batch?job=${result.job.id}`);
+  });
+
+  const visible = entries.filter(entry => !onlyNew || entry.isNew);
+  const selectedFeed = feeds.find(feed => feed.id === selected);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-900 via-purple-900 to-indigo-900 p-6">
+      <div className="max-w-4xl mx-auto">
+        <Card className="bg-white/10 backdrop-blur-lg border-white/20 shadow-xl">
+          <CardHeader className="text-center">
+            <CardTitle className="text-3xl font-bold text-white mb-2">
+              Feeds &amp; Sitemaps
+            </CardTitle>
+            <p className="text-white/80">
+              Register an RSS/Atom feed or sitemap to pick up new articles. <Link href="/" className="text-blue-300 underline">Back to summarizer</Link>
+            </p>
+          </CardHeader>
+
+          <CardContent className="space-y-6 overflow-x-hidden">
+            <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4 flex flex-col sm:flex-row gap-3">
+              <Input
+                placeholder="https://example.com/feed.xml or /sitemap.xml"
+                value={feedUrl}
+                onChange={(e) => setFeedUrl(e.target.value)}
+                className="flex-1 bg-white/10 border-white/20 text-white placeholder:text-white/50"
+                disabled={busy}
+              />
+              <Button
+                onClick={handleAdd}
+                disabled={busy || !feedUrl.trim()}
+                className="bg-blue-600 hover:bg-blue-700 px-6 disabled:opacity-50"
+              >
+                Add feed
+              </Button>
+            </div>
+
+            {error && (
+              <Alert className="bg-red-500/20 border-red-500/50">
+                <AlertDescription className="text-red-200">
+                  <strong>Error:</strong> {error}
+                </AlertDescription>
+              </Alert>
+            )}
+            {message && !error && (
+              <Alert className="bg-green-500/20 border-green-500/50">
+                <AlertDescription className="text-green-200">{message}</AlertDescription>
+              </Alert>
+            )}
+
+            {/* Registered feeds */}
+            <div className="space-y-2">
+              {feeds.length === 0 && <p className="text-white/60 text-sm text-center">No feeds registered yet.</p>}
+              {feeds.map(feed => (
+                <div
+                  key={feed.id}
+                  className={`rounded-lg p-3 flex flex-col sm:flex-row sm:items-center gap-2 cursor-pointer ${
+                    selected === feed.id ? 'ring-2 ring-blue-400 bg-blue-50/20' : 'bg-white/5 hover:bg-white/10'
+                  }`}
+                  onClick={() => setSelected(feed.id)}
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="text-white text-sm truncate">{feed.title}</p>
+                    <p className="text-xs text-blue-300 truncate">{feed.url}</p>
+                    {feed.lastError && <p className="text-xs text-red-200">Last check failed: {feed.lastError}</p>}
+                  </div>
+                  <Badge variant="outline" className="text-xs bg-white/10 text-white border-white/20">{feed.kind}</Badge>
+                  <Badge variant="outline" className="text-xs bg-green-500/20 text-green-200 border-green-500/30">
+                    {feed.newCount} new / {feed.entryCount}
+                  </Badge>
+                  <Button
+                    size="sm"
+                    className="bg-black/50 hover:bg-black/70 text-white"
+                    disabled={busy}
+                    onClick={(e) => { e.stopPropagation(); handleCheck(feed); }}
+                  >
+                    Check now
+                  </Button>
+                  <Button
+                    size="sm"
+                    className="bg-red-600 hover:bg-red-700 text-white"
+                    disabled={busy}
+                    onClick={(e) => { e.stopPropagation(); handleDelete(feed); }}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            {/* Entries of the selected feed */}
+            {selectedFeed && (
+              <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4 space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <label className="flex items-center gap-2 text-sm text-white/70">
+                    <input type="checkbox" checked={onlyNew} onChange={(e) => setOnlyNew(e.target.checked)} />
+                    Only new entries
+                  </label>
+                  <Button
+                    size="sm"
+                    className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                    disabled={busy || selectedFeed.newCount === 0}
+                    onClick={() => handleSummarise()}
+                  >
+                    Summarise all new ({selectedFeed.newCount})
+                  </Button>
+                </div>
+
+                {visible.length === 0 && <p className="text-white/60 text-sm">No entries to show.</p>}
+                <div className="max-h-[32rem] overflow-y-auto divide-y divide-white/10">
+                  {visible.map(entry => (
+                    <div key={entry.id} className="flex flex-col sm:flex-row sm:items-center gap-2 py-2">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-white/90 text-sm">
+                          {entry.isNew && (
+                            <Badge variant="outline" className="text-xs mr-2 bg-green-500/20 text-green-200 border-green-500/30">New</Badge>
+                          )}
+                          {entry.title || entry.url}
+                        </p>
+                        <p className="text-xs text-blue-300 truncate">{entry.url}</p>
+                        {entry.description && <p className="text-xs text-white/60 line-clamp-2">{entry.description}</p>}
+                        {entry.publishedAt && (
+                          <p className="text-xs text-white/50">{new Date(entry.publishedAt).toLocaleDateString()}</p>
+                        )}
+                      </div>
+                      {entry.summaryId ? (
+                        <Link href="/history" className="text-blue-300 underline text-sm">Summarised</Link>
+                      ) : (
+                        <Button
+                          size="sm"
+                          className="bg-black/50 hover:bg-black/70 text-white"
+                          disabled={busy}
+                          onClick={() => handleSummarise([entry.id])}
+                        >
+                          Summarise
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+// app/glossary/page.tsx - Manage translation glossary entries
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Input } from '@/components/input';
+import { Button } from '@/components/button';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/card';
+import { Alert, AlertDescription } from '@/components/alert';
+import { LANGUAGES, LanguageCode } from '@/lib/languages';
+import type { GlossaryEntry, GlossaryFormat, ImportResult } from '@/lib/glossary';
+import type { WithId } from '@/lib/storage';
+
+interface Draft {
+  source: string;
+  target: string;
+}
+
+const selectClassName = 'rounded bg-white/10 border border-white/20 text-white px-2 py-1';
+
+export default function GlossaryPage() {
+  const [language, setLanguage] = useState<LanguageCode>('ur');
+  const [entries, setEntries] = useState<WithId<GlossaryEntry>[]>([]);
+  const [search, setSearch] = useState<string>('');
+  const [newEntry, setNewEntry] = useState<Draft>({ source: '', target: '' });
+  const [editing, setEditing] = useState<Record<string, Draft>>({});
+  const [importFormat, setImportFormat] = useState<GlossaryFormat>('csv');
+  const [importMode, setImportMode] = useState<'merge' | 'replace'>('merge');
+  const [importData, setImportData] = useState<string>('');
+  const [loading, setLoading] = useState<boolean>(false);
+  const [message, setMessage] = useState<string>('');
+  const [error, setError] = useState<string>('');
+
+  const request = async (input: string, init?: RequestInit) => {
+    const response = await fetch(input, init);
+    const result = await response.json();
+    if (!result.success) {
+      throw new Error(result.error || `API error: ${response.status}`);
+    }
+    return result;
+  };
+
+  const loadEntries = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/glossary?language=${language}`);
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || `API error: ${response.status}`);
+      }
+      setEntries(result.entries);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load glossary');
+    } finally {
+      setLoading(false);
+    }
+  }, [language]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const runAction = async (action: () => Promise<void>, success: string) => {
+    setError('');
+    setMessage('');
+    try {
+      await action();
+      setMessage(success);
+      await loadEntries();
+    } catch (err: any) {
+      setError(err.message || 'Request failed');
+    }
+  };
+
+  const handleAdd = () => runAction(async () => {
+    await request('/api/glossary', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ language, ...newEntry }),
+    });
+    setNewEntry({ source: '', target: '' });
+  }, `Added "${newEntry.source}"`);
+
+  const handleSave = (id: string) => runAction(async () => {
+    await request(`/api/glossary/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(editing[id]),
+    });
+    const rest = { ...editing };
+    delete rest[id];
+    setEditing(rest);
+  }, 'Entry updated');
+
+  const handleDelete = (entry: WithId<GlossaryEntry>) => runAction(async () => {
+    await request(`/api/glossary/${entry.id}`, { method: 'DELETE' });
+  }, `Deleted "${entry.source}"`);
+
+  const handleImport = () => runAction(async () => {
+    const result: ImportResult = await request('/api/glossary/import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ format: importFormat, data: importData, mode: importMode }),
+    });
+    setImportData('');
+    if (result.errors.length > 0) {
+      setError(result.errors.slice(0, 5).join('\n'));
+    }
+  }, 'Import finished');
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+    setImportFormat(file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv');
+    setImportData(await file.text());
+  };
+
+  const visible = entries.filter(entry =>
+    !search || entry.source.includes(search.toLowerCase()) || entry.target.includes(search)
+  );
+  const dir = LANGUAGES[language].dir;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-900 via-purple-900 to-indigo-900 p-6">
+      <div className="max-w-4xl mx-auto">
+        <Card className="bg-white/10 backdrop-blur-lg border-white/20 shadow-xl">
+          <CardHeader className="text-center">
+            <CardTitle className="text-3xl font-bold text-white mb-2">
+              Translation Glossary
+            </CardTitle>
+            <p className="text-white/80">
+              Terms used by the dictionary translator. Phrases are matched before single words. <Link href="/" className="text-blue-300 underline">Back to summarizer</Link>
+            </p>
+          </CardHeader>
+
+          <CardContent className="space-y-6 overflow-x-hidden">
+            <div className="flex flex-wrap items-center gap-3 text-sm text-white/70">
+              <label htmlFor="glossary-language" className="flex items-center gap-2">
+                <span>Language</span>
+                <select
+                  id="glossary-language"
+                  value={language}
+                  onChange={(e) => setLanguage(e.target.value as LanguageCode)}
+                  className={selectClassName}
+                >
+                  {Object.values(LANGUAGES).map(option => (
+                    <option key={option.code} value={option.code} className="text-black">
+                      {option.name} ({option.nativeName})
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <a href={`/api/glossary?language=${language}&format=csv`} className="text-blue-300 underline">Export CSV</a>
+              <a href={`/api/glossary?language=${language}&format=json`} className="text-blue-300 underline">Export JSON</a>
+              <a href="/api/glossary?format=csv" className="text-blue-300 underline">Export all languages</a>
+            </div>
+
+            {error && (
+              <Alert className="bg-red-500/20 border-red-500/50">
+                <AlertDescription className="text-red-200 whitespace-pre-wrap">
+                  <strong>Error:</strong> {error}
+                </AlertDescription>
+              </Alert>
+            )}
+            {message && !error && (
+              <Alert className="bg-green-500/20 border-green-500/50">
+                <AlertDescription className="text-green-200">{message}</AlertDescription>
+              </Alert>
+            )}
+
+            {/* Add entry */}
+            <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4 flex flex-col sm:flex-row gap-3">
+              <Input
+                placeholder="English word or phrase"
+                value={newEntry.source}
+                onChange={(e) => setNewEntry({ ...newEntry, source: e.target.value })}
+                className="flex-1 bg-white/10 border-white/20 text-white placeholder:text-white/50"
+              />
+              <Input
+                placeholder={`${LANGUAGES[language].name} translation (empty to drop)`}
+                value={newEntry.target}
+                dir={dir}
+                onChange={(e) => setNewEntry({ ...newEntry, target: e.target.value })}
+                className="flex-1 bg-white/10 border-white/20 text-white placeholder:text-white/50"
+              />
+              <Button
+                onClick={handleAdd}
+                disabled={!newEntry.source.trim()}
+                className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                Add
+              </Button>
+            </div>
+
+            {/* Entries */}
+            <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4 space-y-2">
+              <Input
+                placeholder="Search terms"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="bg-white/10 border-white/20 text-white placeholder:text-white/50"
+              />
+              <p className="text-white/60 text-xs">
+                {loading ? 'Loading...' : `${visible.length} of ${entries.length} entries`}
+              </p>
+              <div className="max-h-96 overflow-y-auto divide-y divide-white/10">
+                {visible.map(entry => {
+                  const draft = editing[entry.id];
+                  return (
+                    <div key={entry.id} className="flex flex-col sm:flex-row sm:items-center gap-2 py-2">
+                      {draft ? (
+                        <>
+                          <Input
+                            value={draft.source}
+                            onChange={(e) => setEditing({ ...editing, [entry.id]: { ...draft, source: e.target.value } })}
+                            className="flex-1 bg-white/10 border-white/20 text-white"
+                          />
+                          <Input
+                            value={draft.target}
+                            dir={dir}
+                            onChange={(e) => setEditing({ ...editing, [entry.id]: { ...draft, target: e.target.value } })}
+                            className="flex-1 bg-white/10 border-white/20 text-white"
+                          />
+                          <Button size="sm" className="bg-blue-600 hover:bg-blue-700" onClick={() => handleSave(entry.id)}>
+                            Save
+                          </Button>
+                        </>
+                      ) : (
+                        <>
+                          <p className="flex-1 text-white/90 text-sm">{entry.source}</p>
+                          <p className={`flex-1 text-white/90 text-sm ${LANGUAGES[language].className || ''}`} dir={dir}>
+                            {entry.target || <span className="text-white/40 italic">(dropped)</span>}
+                          </p>
+                          <Button
+                            size="sm"
+                            className="bg-black/50 hover:bg-black/70 text-white"
+                            onClick={() => setEditing({ ...editing, [entry.id]: { source: entry.source, target: entry.target } })}
+                          >
+                            Edit
+                          </Button>
+                        </>
+                      )}
+                      <Button size="sm" className="bg-red-600 hover:bg-red-700 text-white" onClick={() => handleDelete(entry)}>
+                        Delete
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* Import */}
+            <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4 space-y-3">
+              <p className="text-white/80">Import (CSV columns: language, source, target)</p>
+              <div className="flex flex-wrap items-center gap-3 text-sm text-white/70">
+                <input
+                  type="file"
+                  accept=".csv,.json,text/csv,application/json"
+                  onChange={(e) => handleFile(e.target.files?.[0])}
+                  className="text-white/70"
+                />
+                <select value={importFormat} onChange={(e) => setImportFormat(e.target.value as GlossaryFormat)} className={selectClassName}>
+                  <option value="csv" className="text-black">CSV</option>
+                  <option value="json" className="text-black">JSON</option>
+                </select>
+                <select value={importMode} onChange={(e) => setImportMode(e.target.value as 'merge' | 'replace')} className={selectClassName}>
+                  <option value="merge" className="text-black">Merge with existing</option>
+                  <option value="replace" className="text-black">Replace languages in file</option>
+                </select>
+              </div>
+              <textarea
+                value={importData}
+                onChange={(e) => setImportData(e.target.value)}
+                rows={5}
+                placeholder={'language,source,target\nur,demo day,ڈیمو ڈے'}
+                className="w-full rounded bg-white/10 border border-white/20 text-white placeholder:text-white/50 p-2 text-sm"
+              />
+              <Button
+                onClick={handleImport}
+                disabled={!importData.trim()}
+                className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                Import
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,324 @@
+// app/history/page.tsx - Browse, view, export and delete past summaries
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Input } from '@/components/input';
+import { Button } from '@/components/button';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/card';
+import { Badge } from '@/components/badge';
+import { Alert, AlertDescription } from '@/components/alert';
+import SummaryCard from '@/components/SummaryCard';
+import ExportButtons from '@/components/ExportButtons';
+import type { HistoryDateField, HistoryPage, SummaryDetail } from '@/lib/history';
+
+interface Filters {
+  url: string;
+  domain: string;
+  author: string;
+  from: string;
+  to: string;
+  dateField: HistoryDateField;
+  sort: HistoryDateField;
+}
+
+const emptyFilters: Filters = { url: '', domain: '', author: '', from: '', to: '', dateField: 'createdAt', sort: 'createdAt' };
+
+const selectClassName = 'rounded-md bg-white/10 border border-white/20 text-white px-3 py-2 text-sm';
+
+export default function HistoryPageView() {
+  const [filters, setFilters] = useState<Filters>(emptyFilters);
+  const [appliedFilters, setAppliedFilters] = useState<Filters>(emptyFilters);
+  const [page, setPage] = useState<number>(1);
+  const [history, setHistory] = useState<HistoryPage | null>(null);
+  const [details, setDetails] = useState<Record<string, SummaryDetail>>({});
+  // Ids picked for export; kept across pages and filters
+  const [selected, setSelected] = useState<string[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  const loadHistory = useCallback(async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const params = new URLSearchParams({ page: String(page) });
+      (Object.keys(appliedFilters) as (keyof Filters)[]).forEach(key => {
+        if (appliedFilters[key]) {
+          params.set(key, appliedFilters[key]);
+        }
+      });
+
+      const response = await fetch(`/api/summaries?${params.toString()}`);
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || `API error: ${response.status}`);
+      }
+      setHistory(result);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load history');
+    } finally {
+      setLoading(false);
+    }
+  }, [page, appliedFilters]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const handleApplyFilters = () => {
+    setPage(1);
+    setAppliedFilters(filters);
+  };
+
+  const handleFilterAuthor = (author: string) => {
+    const next = { ...filters, author };
+    setFilters(next);
+    setPage(1);
+    setAppliedFilters(next);
+  };
+
+  const handleToggleOriginal = async (id: string) => {
+    if (details[id]) {
+      const rest = { ...details };
+      delete rest[id];
+      setDetails(rest);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/summaries/${id}`);
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || `API error: ${response.status}`);
+      }
+      setDetails({ ...details, [id]: result.summary });
+    } catch (err: any) {
+      setError(err.message || 'Failed to load summary');
+    }
+  };
+
+  const handleToggleSelected = (id: string) => {
+    setSelected(selected.indexOf(id) === -1 ? [...selected, id] : selected.filter(other => other !== id));
+  };
+
+  const handleSelectPage = () => {
+    const ids = (history?.items || []).map(item => item.id).filter(id => selected.indexOf(id) === -1);
+    setSelected([...selected, ...ids]);
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const response = await fetch(`/api/summaries/${id}`, { method: 'DELETE' });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || `API error: ${response.status}`);
+      }
+      setSelected(selected.filter(other => other !== id));
+      await loadHistory();
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete summary');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-900 via-purple-900 to-indigo-900 p-6">
+      <div className="max-w-4xl mx-auto">
+        <Card className="bg-white/10 backdrop-blur-lg border-white/20 shadow-xl">
+          <CardHeader className="text-center">
+            <CardTitle className="text-3xl font-bold text-white mb-2">
+              Summary History
+            </CardTitle>
+            <p className="text-white/80">
+              Past summaries, without scraping again. <Link href="/" className="text-blue-300 underline">Back to summarizer</Link>
+            </p>
+          </CardHeader>
+
+          <CardContent className="space-y-6 overflow-x-hidden">
+            {/* Filters */}
+            <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4 grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <Input
+                placeholder="Exact URL"
+                value={filters.url}
+                onChange={(e) => setFilters({ ...filters, url: e.target.value })}
+                className="bg-white/10 border-white/20 text-white placeholder:text-white/50"
+              />
+              <Input
+                placeholder="Domain (e.g. ycombinator.com)"
+                value={filters.domain}
+                onChange={(e) => setFilters({ ...filters, domain: e.target.value })}
+                className="bg-white/10 border-white/20 text-white placeholder:text-white/50"
+              />
+              <Input
+                placeholder="Author"
+                value={filters.author}
+                onChange={(e) => setFilters({ ...filters, author: e.target.value })}
+                className="bg-white/10 border-white/20 text-white placeholder:text-white/50 sm:col-span-2"
+              />
+              <select
+                aria-label="Date range applies to"
+                value={filters.dateField}
+                onChange={(e) => setFilters({ ...filters, dateField: e.target.value as HistoryDateField })}
+                className={selectClassName}
+              >
+                <option value="createdAt" className="text-black">Dates: summarised</option>
+                <option value="publishedAt" className="text-black">Dates: published</option>
+              </select>
+              <select
+                aria-label="Sort by"
+                value={filters.sort}
+                onChange={(e) => setFilters({ ...filters, sort: e.target.value as HistoryDateField })}
+                className={selectClassName}
+              >
+                <option value="createdAt" className="text-black">Newest summaries first</option>
+                <option value="publishedAt" className="text-black">Newest articles first</option>
+              </select>
+              <Input
+                type="date"
+                value={filters.from}
+                onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+                className="bg-white/10 border-white/20 text-white"
+              />
+              <Input
+                type="date"
+                value={filters.to}
+                onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+                className="bg-white/10 border-white/20 text-white"
+              />
+              <Button
+                onClick={handleApplyFilters}
+                disabled={loading}
+                className="bg-blue-600 hover:bg-blue-700 sm:col-span-2 disabled:opacity-50"
+              >
+                {loading ? 'Loading...' : 'Apply filters'}
+              </Button>
+            </div>
+
+            {error && (
+              <Alert className="bg-red-500/20 border-red-500/50">
+                <AlertDescription className="text-red-200">
+                  <strong>Error:</strong> {error}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {history && history.items.length === 0 && !loading && (
+              <p className="text-white/70 text-center">No summaries found.</p>
+            )}
+
+            {/* Export selection */}
+            {history && history.items.length > 0 && (
+              <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4 space-y-3">
+                <div className="flex flex-wrap items-center gap-3 text-sm text-white/80">
+                  <span>{selected.length} selected for export</span>
+                  <button type="button" className="underline hover:text-white" onClick={handleSelectPage}>
+                    Select this page
+                  </button>
+                  {selected.length > 0 && (
+                    <button type="button" className="underline hover:text-white" onClick={() => setSelected([])}>
+                      Clear
+                    </button>
+                  )}
+                </div>
+                <ExportButtons request={{ ids: selected }} disabled={selected.length === 0} onError={setError} />
+              </div>
+            )}
+
+            {/* Results */}
+            {history?.items.map(item => (
+              <div key={item.id} className="space-y-2">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                  <label className="flex items-start gap-3 min-w-0 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="mt-1"
+                      aria-label="Select for export"
+                      checked={selected.indexOf(item.id) !== -1}
+                      onChange={() => handleToggleSelected(item.id)}
+                    />
+                    <div className="min-w-0">
+                      {item.title && <p className="text-sm text-white font-medium truncate">{item.title}</p>}
+                      <p className="text-xs text-blue-300 truncate">{item.url}</p>
+                      <p className="text-xs text-white/60">
+                        {item.author && (
+                          <>
+                            By{' '}
+                            <button
+                              type="button"
+                              className="underline hover:text-white"
+                              title="Show summaries by this author"
+                              onClick={() => handleFilterAuthor(item.author!)}
+                            >
+                              {item.author}
+                            </button>
+                            {' · '}
+                          </>
+                        )}
+                        {item.publishedAt && <>Published {new Date(item.publishedAt).toLocaleDateString()} · </>}
+                        Summarised {new Date(item.createdAt).toLocaleString()}
+                      </p>
+                    </div>
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="text-xs bg-white/10 text-white border-white/20">
+                      {item.domain}
+                    </Badge>
+                    <Button
+                      size="sm"
+                      className="bg-black/50 hover:bg-black/70 text-white"
+                      onClick={() => handleToggleOriginal(item.id)}
+                    >
+                      {details[item.id] ? 'Hide original' : 'Show original'}
+                    </Button>
+                    <Button
+                      size="sm"
+                      className="bg-red-600 hover:bg-red-700 text-white"
+                      onClick={() => handleDelete(item.id)}
+                    >
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+
+                <SummaryCard summary={item.summary} translations={item.translations} />
+
+                {details[item.id] && (
+                  <div className="bg-white/5 rounded-lg p-3 sm:p-4 max-h-48 sm:max-h-60 overflow-y-auto">
+                    <p className="text-white/80 text-xs sm:text-sm leading-relaxed break-words whitespace-pre-wrap">
+                      {details[item.id].blog?.markdown || details[item.id].blog?.fullText || 'Original content is no longer stored.'}
+                    </p>
+                  </div>
+                )}
+              </div>
+            ))}
+
+            {/* Pagination */}
+            {history && history.totalPages > 1 && (
+              <div className="flex items-center justify-between">
+                <Button
+                  size="sm"
+                  className="bg-black/50 hover:bg-black/70 text-white disabled:opacity-50"
+                  disabled={loading || page <= 1}
+                  onClick={() => setPage(page - 1)}
+                >
+                  Previous
+                </Button>
+                <p className="text-white/70 text-sm">
+                  Page {history.page} of {history.totalPages} ({history.total} summaries)
+                </p>
+                <Button
+                  size="sm"
+                  className="bg-black/50 hover:bg-black/70 text-white disabled:opacity-50"
+                  disabled={loading || page >= history.totalPages}
+                  onClick={() => setPage(page + 1)}
+                >
+                  Next
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
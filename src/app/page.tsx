@@ -1,17 +1,21 @@
 // app/page.tsx - Enhanced version with better error handling
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
 import { Input } from '@/components/input';
 import { Button } from '@/components/button';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/card';
 import { Badge } from '@/components/badge';
 import { Alert, AlertDescription } from '@/components/alert';
-import { scrapeBlogText, scrapeWithFallback } from '@/lib/scraper';
-import { summarise } from '@/lib/summariser';
-import { translateToUrdu } from '@/lib/translator';
-import { saveFullText, saveSummary } from '@/lib/mongodb';
-import { saveToSupabase } from '@/lib/supabase';
+import ArticleContent from '@/components/ArticleContent';
+import ExportButtons from '@/components/ExportButtons';
+import type { PastedFormat, PipelineEvent, PipelineProgress, PipelineResult } from '@/lib/pipeline';
+import type { FeedEntryDocument } from '@/lib/feeds';
+import type { WithId } from '@/lib/storage';
+import type { ArticleMetadata } from '@/lib/metadata';
+import { summarisers, SummariserStrategy, DEFAULT_STRATEGY } from '@/lib/summariser';
+import { DEFAULT_LANGUAGES, LANGUAGES, LanguageCode } from '@/lib/languages';
 
 
 
@@ -21,7 +25,7 @@ interface BlogOption {
   url: string;
   description: string;
   category: string;
-  difficulty: 'easy' | 'medium' | 'hard';
+  difficulty?: 'easy' | 'medium' | 'hard';
 }
 
 const blogOptions: BlogOption[] = [
@@ -55,33 +59,160 @@ const blogOptions: BlogOption[] = [
   }
 ];
 
+// New entries from registered feeds replace the built-in examples when there are any
+const FEED_OPTION_COUNT = 4;
+
+function toBlogOption(entry: WithId<FeedEntryDocument>): BlogOption {
+  return {
+    title: entry.title || entry.url,
+    url: entry.url,
+    description: entry.description || '',
+    category: 'New'
+  };
+}
+
+// Below this share of translated words a translation card warns that it is mostly English
+const LOW_TRANSLATION_COVERAGE = 0.6;
+// Below this extraction confidence the original content may be boilerplate rather than the article
+const LOW_EXTRACTION_CONFIDENCE = 0.4;
 
 interface ProcessingState {
-  step: 'idle' | 'scraping' | 'summarizing' | 'translating' | 'saving' | 'complete';
+  step: 'idle' | PipelineProgress['stage'] | 'complete';
   progress: number;
+  // Latest progress event streamed by /api/summarise
+  event?: PipelineEvent;
+}
+
+type StreamLine =
+  | ({ type: 'progress' } & PipelineProgress)
+  | { type: 'result'; result: PipelineResult }
+  | { type: 'error'; error: string };
+
+// Reads the newline-delimited JSON stream from /api/summarise, reporting progress lines
+// as they arrive, and returns the final result
+async function readPipelineStream(
+  response: Response,
+  onProgress: (update: PipelineProgress) => void
+): Promise<PipelineResult> {
+  if (!response.body || !(response.headers.get('content-type') || '').includes('ndjson')) {
+    try {
+      return await response.json();
+    } catch {
+      throw new Error(`API error: ${response.status}`);
+    }
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let result: PipelineResult | undefined;
+
+  const handle = (line: string) => {
+    if (!line.trim()) {
+      return;
+    }
+    const message: StreamLine = JSON.parse(line);
+    if (message.type === 'progress') {
+      onProgress(message);
+    } else if (message.type === 'error') {
+      throw new Error(message.error);
+    } else {
+      result = message.result;
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(handle);
+  }
+  handle(buffer + decoder.decode());
+
+  if (!result) {
+    throw new Error('The connection closed before the summary was ready');
+  }
+  return result;
 }
 
 export default function Home() {
   const [url, setUrl] = useState<string>('');
+  const [file, setFile] = useState<File | null>(null);
+  // 'paste' summarises text or HTML typed into the page instead of a URL or file
+  const [inputMode, setInputMode] = useState<'url' | 'paste'>('url');
+  const [pastedText, setPastedText] = useState<string>('');
+  const [pastedFormat, setPastedFormat] = useState<PastedFormat | 'auto'>('auto');
+  // Changing the key remounts the file input, which is the only way to empty it
+  const [uploadKey, setUploadKey] = useState<number>(0);
   const [summary, setSummary] = useState<string>('');
-  const [translated, setTranslated] = useState<string>('');
+  const [translations, setTranslations] = useState<PipelineResult['translations']>({});
+  const [languages, setLanguages] = useState<LanguageCode[]>(DEFAULT_LANGUAGES);
   const [fullText, setFullText] = useState<string>('');
-  const [metadata, setMetadata] = useState<any>(null);
+  const [article, setArticle] = useState<PipelineResult['document']>(undefined);
+  const [confidence, setConfidence] = useState<number | undefined>(undefined);
+  const [pageCount, setPageCount] = useState<number | undefined>(undefined);
+  const [rendered, setRendered] = useState<boolean>(false);
+  const [metadata, setMetadata] = useState<ArticleMetadata | null>(null);
   const [processing, setProcessing] = useState<ProcessingState>({ step: 'idle', progress: 0 });
   const [error, setError] = useState<string>('');
   const [selectedBlog, setSelectedBlog] = useState<string | null>(null);
   const [useDemo, setUseDemo] = useState<boolean>(false);
+  const [forceRefresh, setForceRefresh] = useState<boolean>(false);
+  const [forceRender, setForceRender] = useState<boolean>(false);
+  const [strategy, setStrategy] = useState<SummariserStrategy>(DEFAULT_STRATEGY);
+  const [lengthValue, setLengthValue] = useState<number>(5);
+  const [lengthUnit, setLengthUnit] = useState<'sentences' | 'percent'>('sentences');
+  const [abstractive, setAbstractive] = useState<boolean>(false);
+  const [summaryNotice, setSummaryNotice] = useState<string>('');
+  const [cacheStatus, setCacheStatus] = useState<PipelineResult['cache']>(undefined);
+  const [feedOptions, setFeedOptions] = useState<BlogOption[]>([]);
+
+  useEffect(() => {
+    fetch(`/api/feeds/entries?new=1&limit=${FEED_OPTION_COUNT}`)
+      .then(response => response.json())
+      .then(result => {
+        if (result.success) {
+          setFeedOptions(result.entries.map(toBlogOption));
+        }
+      })
+      .catch(() => {
+        // Feeds are optional; keep the built-in examples
+      });
+  }, []);
 
   const handleSelectBlog = (blogUrl: string): void => {
+    setInputMode('url');
     setUrl(blogUrl);
     setSelectedBlog(blogUrl);
     setError('');
     setUseDemo(blogUrl.startsWith('demo://'));
+    clearFile();
     // Clear previous results when selecting a new blog
     setSummary('');
-    setTranslated('');
+    setTranslations({});
     setFullText('');
+    setArticle(undefined);
+    setConfidence(undefined);
+    setPageCount(undefined);
+    setRendered(false);
     setMetadata(null);
+    setCacheStatus(undefined);
+    setSummaryNotice('');
+  };
+
+  const clearFile = (): void => {
+    setFile(null);
+    setUploadKey(uploadKey + 1);
+  };
+
+  const toggleLanguage = (code: LanguageCode): void => {
+    setLanguages(languages.indexOf(code) === -1
+      ? [...languages, code]
+      : languages.filter(language => language !== code));
   };
 
   const updateProgress = (step: ProcessingState['step'], progress: number) => {
@@ -89,8 +220,12 @@ export default function Home() {
   };
 
   const handleSummarise = async (): Promise<void> => {
-  if (!url) {
-    setError('Please enter a blog URL or select one from the options above');
+  if (inputMode === 'paste' && !pastedText.trim()) {
+    setError('Please paste the article text or HTML');
+    return;
+  }
+  if (inputMode === 'url' && !url && !file) {
+    setError('Please enter a blog URL, select one from the options above or choose a file');
     return;
   }
 
@@ -98,52 +233,59 @@ export default function Home() {
   updateProgress('scraping', 0);
 
   try {
-    // Step 1: Scrape blog content
-    const response = await fetch('/api/scrape', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ url }),
-    });
-
-    if (!response.ok) {
-      const errText = await response.text();
-      throw new Error(`API error: ${response.status} - ${errText}`);
+    const options = {
+      useDemoFallback: useDemo,
+      forceRefresh,
+      ...(forceRender ? { render: 'always' } : {}),
+      strategy,
+      abstractive,
+      languages,
+      ...(lengthUnit === 'sentences'
+        ? { sentences: lengthValue }
+        : { ratio: Math.min(lengthValue, 100) / 100 }),
+    };
+
+    // Uploaded files go up as multipart form data with the options alongside
+    let body: BodyInit;
+    const headers: Record<string, string> = { 'Accept': 'application/x-ndjson' };
+    if (inputMode === 'paste') {
+      headers['Content-Type'] = 'application/json';
+      body = JSON.stringify({
+        text: pastedText,
+        ...(pastedFormat !== 'auto' ? { format: pastedFormat } : {}),
+        ...options
+      });
+    } else if (file) {
+      const form = new FormData();
+      form.append('file', file);
+      form.append('options', JSON.stringify(options));
+      body = form;
+    } else {
+      headers['Content-Type'] = 'application/json';
+      body = JSON.stringify({ url, ...options });
     }
 
-    const scrapingResult = await response.json();
-
-    if (!scrapingResult.success) {
-      throw new Error(scrapingResult.error || 'Failed to scrape content');
-    }
+    // The whole scrape → summarise → translate → save pipeline runs on the server
+    const response = await fetch('/api/summarise', { method: 'POST', headers, body });
 
-    const { content, metadata } = scrapingResult;
+    const result = await readPipelineStream(response, update =>
+      setProcessing({ step: update.stage, progress: update.progress, event: update.event })
+    );
 
-    if (!content || content.length < 50) {
-      throw new Error('Insufficient content was extracted from the webpage');
+    if (!result.success) {
+      throw new Error(result.error || `API error: ${response.status}`);
     }
 
-    setFullText(content);
-    setMetadata(metadata);
-    updateProgress('scraping', 100);
-
-    // Summary and translation steps
-    updateProgress('summarizing', 0);
-    const summaryText = summarise(content);
-    setSummary(summaryText);
-    updateProgress('summarizing', 100);
-
-    updateProgress('translating', 0);
-    const urduTranslation = await translateToUrdu(summaryText);
-    setTranslated(urduTranslation);
-    updateProgress('translating', 100);
-
-    updateProgress('saving', 0);
-    await Promise.all([
-      saveFullText(url, content),
-      saveSummary(url, summaryText, urduTranslation),
-      saveToSupabase(url, content, summaryText, urduTranslation),
-    ]);
-    updateProgress('saving', 100);
+    setFullText(result.content || '');
+    setArticle(result.document);
+    setConfidence(result.confidence);
+    setPageCount(result.pages);
+    setRendered(Boolean(result.rendered));
+    setMetadata(result.metadata || null);
+    setCacheStatus(result.cache);
+    setSummary(result.summary || '');
+    setSummaryNotice(result.summaryFallbackReason || '');
+    setTranslations(result.translations || {});
 
     updateProgress('complete', 100);
   } catch (err: any) {
@@ -155,13 +297,37 @@ export default function Home() {
 ;
 
   const getProgressMessage = () => {
+    const event = processing.event;
+    switch (event?.type) {
+      case 'cache':
+        return event.status === 'hit' ? 'Using cached copy of the page...' : 'Page unchanged, using cached copy...';
+      case 'attempt':
+        return `Fetching page (attempt ${event.attempt} of ${event.retries})...`;
+      case 'extracted':
+        return `Extracted ${event.characters.toLocaleString()} characters on attempt ${event.attempt}...`;
+      case 'retry':
+        return `${event.error} Retrying in ${Math.round(event.delay / 1000)}s...`;
+      case 'page':
+        return `Fetching page ${event.page} of the article...`;
+      case 'render':
+        return event.reason === 'forced'
+          ? 'Loading the page in a browser...'
+          : 'Little text in the page source, loading it in a browser...';
+      case 'summarised':
+        return `Summary ready (${event.provider === 'llm' ? 'AI' : 'extractive'}, ${event.characters.toLocaleString()} characters)...`;
+      case 'translated':
+        return `Translated to ${LANGUAGES[event.language].name} via ${event.provider} (${event.done} of ${event.total})...`;
+      case 'saved':
+        return `Saved ${event.target} (${event.done} of ${event.total})...`;
+    }
+
     switch (processing.step) {
       case 'scraping':
         return 'Extracting content from webpage...';
       case 'summarizing':
         return 'Generating summary...';
       case 'translating':
-        return 'Translating to Urdu...';
+        return `Translating to ${languages.map(code => LANGUAGES[code].name).join(', ')}...`;
       case 'saving':
         return 'Saving to database...';
       case 'complete':
@@ -191,13 +357,19 @@ export default function Home() {
               AI Blog Summarizer
             </CardTitle>
             <p className="text-white/80">Choose a blog to summarize or enter your own URL:</p>
+            <div className="flex justify-center gap-4 text-sm">
+              <Link href="/history" className="text-blue-300 underline">View past summaries</Link>
+              <Link href="/batch" className="text-blue-300 underline">Summarise a list of URLs</Link>
+              <Link href="/feeds" className="text-blue-300 underline">Feeds &amp; sitemaps</Link>
+              <Link href="/glossary" className="text-blue-300 underline">Edit translation glossary</Link>
+            </div>
           </CardHeader>
           
          <CardContent className="space-y-6 overflow-x-hidden">
 
             {/* Blog Selection Cards */}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-              {blogOptions.map((blog, index) => (
+              {(feedOptions.length > 0 ? feedOptions : blogOptions).map((blog, index) => (
                 <Card 
                   key={index} 
                   className={`cursor-pointer transition-all duration-200 hover:scale-105 ${
@@ -219,12 +391,14 @@ export default function Home() {
                       <p className="text-xs text-blue-300 truncate flex-1 mr-2">
                         {blog.url.startsWith('demo://') ? 'Demo Content' : blog.url}
                       </p>
-                      <Badge 
-                        variant="outline" 
-                        className={`text-xs ${getDifficultyColor(blog.difficulty)}`}
-                      >
-                        {blog.difficulty}
-                      </Badge>
+                      {blog.difficulty && (
+                        <Badge 
+                          variant="outline" 
+                          className={`text-xs ${getDifficultyColor(blog.difficulty)}`}
+                        >
+                          {blog.difficulty}
+                        </Badge>
+                      )}
                     </div>
                     <Button 
                       className="w-full bg-black/50 hover:bg-black/70 text-white"
@@ -240,6 +414,56 @@ export default function Home() {
 
             {/* URL Input Section */}
             <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4">
+              <div className="flex gap-2 mb-3" role="tablist">
+                {(['url', 'paste'] as const).map(mode => (
+                  <Button
+                    key={mode}
+                    size="sm"
+                    role="tab"
+                    aria-selected={inputMode === mode}
+                    onClick={() => setInputMode(mode)}
+                    disabled={isProcessing}
+                    className={inputMode === mode ? 'bg-blue-600 hover:bg-blue-700 text-white' : 'bg-white/10 hover:bg-white/20 text-white/80'}
+                  >
+                    {mode === 'url' ? 'Web page or file' : 'Paste text'}
+                  </Button>
+                ))}
+              </div>
+
+              {inputMode === 'paste' ? (
+                <div className="space-y-3">
+                  <textarea
+                    value={pastedText}
+                    onChange={(e) => setPastedText(e.target.value)}
+                    rows={8}
+                    placeholder="Paste the article text, or the page's HTML, here"
+                    className="w-full rounded bg-white/10 border border-white/20 text-white placeholder:text-white/50 p-2 text-sm"
+                    disabled={isProcessing}
+                  />
+                  <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                    <label htmlFor="pasted-format" className="text-sm text-white/70">Pasted content is</label>
+                    <select
+                      id="pasted-format"
+                      value={pastedFormat}
+                      onChange={(e) => setPastedFormat(e.target.value as PastedFormat | 'auto')}
+                      className="rounded bg-white/10 border border-white/20 text-white px-2 py-1"
+                      disabled={isProcessing}
+                    >
+                      <option value="auto" className="text-black">Detected automatically</option>
+                      <option value="text" className="text-black">Plain text</option>
+                      <option value="html" className="text-black">HTML</option>
+                    </select>
+                    <Button
+                      onClick={handleSummarise}
+                      disabled={isProcessing || !pastedText.trim()}
+                      className="bg-blue-600 hover:bg-blue-700 px-6 min-w-[120px] disabled:opacity-50 sm:ml-auto"
+                    >
+                      {isProcessing ? 'Processing...' : 'Summarize'}
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+              <>
               <p className="text-white/80 mb-3">Selected URL or enter your own:</p>
              <div className="flex flex-col sm:flex-row gap-3">
 
@@ -252,15 +476,36 @@ export default function Home() {
                 />
                 <Button 
                   onClick={handleSummarise}
-                  disabled={isProcessing || !url}
+                  disabled={isProcessing || (!url && !file)}
                   className="bg-blue-600 hover:bg-blue-700 px-6 min-w-[120px] disabled:opacity-50"
                 >
                   {isProcessing ? 'Processing...' : 'Summarize'}
                 </Button>
               </div>
+
+              {/* File upload: a chosen file is summarised instead of the URL */}
+              <div className="mt-3 flex flex-col sm:flex-row sm:items-center gap-2">
+                <label htmlFor="upload" className="text-sm text-white/70">Or summarise a file (PDF, Markdown, text or HTML):</label>
+                <input
+                  key={uploadKey}
+                  type="file"
+                  id="upload"
+                  accept=".pdf,.md,.markdown,.txt,.html,.htm,application/pdf,text/markdown,text/plain,text/html"
+                  onChange={(e) => setFile(e.target.files?.[0] || null)}
+                  className="text-sm text-white/80 file:mr-3 file:rounded file:border-0 file:bg-white/20 file:px-3 file:py-1 file:text-white"
+                  disabled={isProcessing}
+                />
+                {file && (
+                  <Button size="sm" className="bg-black/50 hover:bg-black/70 text-white w-fit" onClick={clearFile}>
+                    Clear file
+                  </Button>
+                )}
+              </div>
+              </>
+              )}
               
               {/* Demo Mode Toggle */}
-              {!url.startsWith('demo://') && (
+              {inputMode === 'url' && !url.startsWith('demo://') && (
                 <div className="mt-3 flex items-center gap-2">
                   <input
                     type="checkbox"
@@ -275,6 +520,111 @@ export default function Home() {
                   </label>
                 </div>
               )}
+
+              {/* Summariser options */}
+              <div className="mt-3 flex flex-col sm:flex-row sm:items-center gap-3 text-sm text-white/70">
+                <label htmlFor="strategy" className="flex items-center gap-2">
+                  <span>Summariser</span>
+                  <select
+                    id="strategy"
+                    value={strategy}
+                    onChange={(e) => setStrategy(e.target.value as SummariserStrategy)}
+                    className="rounded bg-white/10 border border-white/20 text-white px-2 py-1"
+                    disabled={isProcessing}
+                  >
+                    {Object.values(summarisers).map(option => (
+                      <option key={option.name} value={option.name} className="text-black">
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label htmlFor="summary-length" className="flex items-center gap-2">
+                  <span>Length</span>
+                  <input
+                    id="summary-length"
+                    type="number"
+                    min={1}
+                    max={lengthUnit === 'sentences' ? 50 : 100}
+                    value={lengthValue}
+                    onChange={(e) => setLengthValue(Math.max(1, Number(e.target.value) || 1))}
+                    className="w-16 rounded bg-white/10 border border-white/20 text-white px-2 py-1"
+                    disabled={isProcessing}
+                  />
+                  <select
+                    value={lengthUnit}
+                    onChange={(e) => setLengthUnit(e.target.value as 'sentences' | 'percent')}
+                    className="rounded bg-white/10 border border-white/20 text-white px-2 py-1"
+                    disabled={isProcessing}
+                  >
+                    <option value="sentences" className="text-black">sentences</option>
+                    <option value="percent" className="text-black">% of article</option>
+                  </select>
+                </label>
+              </div>
+
+              {/* Output languages */}
+              <div className="mt-3 flex flex-wrap items-center gap-3 text-sm text-white/70">
+                <span>Translate to</span>
+                {Object.values(LANGUAGES).map(language => (
+                  <label key={language.code} htmlFor={`language-${language.code}`} className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      id={`language-${language.code}`}
+                      checked={languages.indexOf(language.code) !== -1}
+                      onChange={() => toggleLanguage(language.code)}
+                      className="rounded"
+                      disabled={isProcessing}
+                    />
+                    {language.name} ({language.nativeName})
+                  </label>
+                ))}
+              </div>
+
+              {/* Abstractive summary toggle */}
+              <div className="mt-3 flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  id="abstractive"
+                  checked={abstractive}
+                  onChange={(e) => setAbstractive(e.target.checked)}
+                  className="rounded"
+                  disabled={isProcessing}
+                />
+                <label htmlFor="abstractive" className="text-sm text-white/70">
+                  Write the summary with AI (falls back to the summariser above)
+                </label>
+              </div>
+
+              {/* Cache bypass toggle */}
+              <div className="mt-3 flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  id="force-refresh"
+                  checked={forceRefresh}
+                  onChange={(e) => setForceRefresh(e.target.checked)}
+                  className="rounded"
+                  disabled={isProcessing}
+                />
+                <label htmlFor="force-refresh" className="text-sm text-white/70">
+                  Force refresh (ignore cached copy of this page)
+                </label>
+              </div>
+
+              {/* Headless browser toggle */}
+              <div className="mt-3 flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  id="force-render"
+                  checked={forceRender}
+                  onChange={(e) => setForceRender(e.target.checked)}
+                  className="rounded"
+                  disabled={isProcessing}
+                />
+                <label htmlFor="force-render" className="text-sm text-white/70">
+                  Load the page in a browser (for sites that build their content with JavaScript)
+                </label>
+              </div>
             </div>
 
             {/* Progress Display */}
@@ -300,7 +650,7 @@ export default function Home() {
                   <strong>Error:</strong> {error}
                   <div className="mt-2 text-sm space-y-1">
                     {error.includes('Insufficient content') && (
-                      <p>💡 <strong>Tip:</strong> This website might be blocking automated access or using dynamic content loading.</p>
+                      <p>💡 <strong>Tip:</strong> This website might be blocking automated access or using dynamic content loading. Try the &quot;Load the page in a browser&quot; option.</p>
                     )}
                     {error.includes('blocks automated requests') && (
                       <p>💡 <strong>Tip:</strong> Try enabling "Use demo content if scraping fails" option below.</p>
@@ -340,7 +690,38 @@ export default function Home() {
                       {metadata.description && (
                         <p className="text-white/90"><strong>Description:</strong> {metadata.description}</p>
                       )}
-                      <p className="text-white/70 text-sm"><strong>Source:</strong> {metadata.url}</p>
+                      {(metadata.author || metadata.siteName) && (
+                        <p className="text-white/90 text-sm">
+                          {metadata.author && <><strong>Author:</strong> {metadata.author}</>}
+                          {metadata.author && metadata.siteName && ' · '}
+                          {metadata.siteName && <><strong>Site:</strong> {metadata.siteName}</>}
+                        </p>
+                      )}
+                      {(metadata.publishedAt || metadata.modifiedAt) && (
+                        <p className="text-white/90 text-sm">
+                          {metadata.publishedAt && <><strong>Published:</strong> {new Date(metadata.publishedAt).toLocaleDateString()}</>}
+                          {metadata.publishedAt && metadata.modifiedAt && ' · '}
+                          {metadata.modifiedAt && <><strong>Updated:</strong> {new Date(metadata.modifiedAt).toLocaleDateString()}</>}
+                        </p>
+                      )}
+                      {metadata.wordCount !== undefined && (
+                        <p className="text-white/90 text-sm">
+                          <strong>Length:</strong> {metadata.wordCount.toLocaleString()} words · {metadata.readingTime} min read
+                          {metadata.language && <> · <strong>Language:</strong> {metadata.language}</>}
+                        </p>
+                      )}
+                      {metadata.image && (
+                        <img src={metadata.image} alt="" className="rounded-md max-h-48 w-full object-cover" />
+                      )}
+                      <p className="text-white/70 text-sm break-all"><strong>Source:</strong> {metadata.url}</p>
+                      {metadata.canonicalUrl && metadata.canonicalUrl !== metadata.url && (
+                        <p className="text-white/70 text-sm break-all"><strong>Canonical:</strong> {metadata.canonicalUrl}</p>
+                      )}
+                      {(cacheStatus === 'hit' || cacheStatus === 'revalidated') && (
+                        <Badge variant="outline" className="text-xs bg-white/10 text-white border-white/20">
+                          {cacheStatus === 'hit' ? 'Served from cache' : 'Unchanged since last visit (cached)'}
+                        </Badge>
+                      )}
                     </CardContent>
                   </Card>
                 )}
@@ -356,14 +737,38 @@ export default function Home() {
       >
         {fullText.length.toLocaleString()} characters
       </Badge>
+      {confidence !== undefined && (
+        <Badge
+          variant="outline"
+          className={`text-xs w-fit ${confidence < LOW_EXTRACTION_CONFIDENCE
+            ? 'bg-yellow-500/20 text-yellow-200 border-yellow-500/30'
+            : 'bg-white/10 text-white border-white/20'}`}
+          title="How sure the extractor is that this is the article body"
+        >
+          {Math.round(confidence * 100)}% extraction confidence
+        </Badge>
+      )}
+      {pageCount !== undefined && pageCount > 1 && (
+        <Badge variant="outline" className="text-xs bg-white/10 text-white border-white/20 w-fit">
+          {pageCount} pages merged
+        </Badge>
+      )}
+      {rendered && (
+        <Badge variant="outline" className="text-xs bg-white/10 text-white border-white/20 w-fit">
+          Rendered in browser
+        </Badge>
+      )}
     </CardTitle>
   </CardHeader>
   <CardContent className="p-4 sm:p-6 pt-0">
     <div className="bg-white/5 rounded-lg p-3 sm:p-4 max-h-48 sm:max-h-60 lg:max-h-72 overflow-y-auto">
-     <p className="text-white/80 text-xs sm:text-sm leading-relaxed break-words whitespace-pre-wrap">
-
-        {fullText}
-      </p>
+      {article && article.blocks.length > 0 ? (
+        <ArticleContent document={article} />
+      ) : (
+        <p className="text-white/80 text-xs sm:text-sm leading-relaxed break-words whitespace-pre-wrap">
+          {fullText}
+        </p>
+      )}
     </div>
   </CardContent>
 </Card>
@@ -375,23 +780,50 @@ export default function Home() {
                     </CardHeader>
                     <CardContent>
                       <p className="text-white/90 leading-relaxed">{summary}</p>
+                      {summaryNotice && (
+                        <p className="text-yellow-200 text-xs mt-2">⚠️ AI summary unavailable ({summaryNotice}); showing an extractive summary instead.</p>
+                      )}
                     </CardContent>
                   </Card>
                 )}
 
-                {/* Urdu Translation */}
-                {translated && (
-                  <Card className="bg-orange-500/20 border-orange-500/50">
+                {/* Translations, one card per language */}
+                {Object.values(translations || {}).map(result => result && result.text && (
+                  <Card key={result.language} className="bg-orange-500/20 border-orange-500/50">
                     <CardHeader>
                       <CardTitle className="text-white text-lg flex items-center gap-2">
-                        <span>اردو خلاصہ</span>
-                        <span className="text-sm font-normal">(Urdu Summary)</span>
+                        <span dir={LANGUAGES[result.language].dir}>{LANGUAGES[result.language].heading}</span>
+                        <span className="text-sm font-normal">({LANGUAGES[result.language].name} Summary)</span>
                       </CardTitle>
                     </CardHeader>
                     <CardContent>
-                      <p className="text-white/90 text-right leading-relaxed" dir="rtl">
-                        {translated}
+                      <p
+                        className={`text-white/90 leading-relaxed ${LANGUAGES[result.language].dir === 'rtl' ? 'text-right' : ''} ${LANGUAGES[result.language].className || ''}`}
+                        dir={LANGUAGES[result.language].dir}
+                      >
+                        {result.text}
                       </p>
+                      {result.coverage < LOW_TRANSLATION_COVERAGE && (
+                        <p className="text-yellow-200 text-xs mt-2">
+                          ⚠️ Only {Math.round(result.coverage * 100)}% of the summary was translated; most of this text is still English.
+                        </p>
+                      )}
+                    </CardContent>
+                  </Card>
+                ))}
+
+                {/* Downloads */}
+                {summary && (
+                  <Card className="bg-white/10 backdrop-blur-sm border-white/20">
+                    <CardHeader>
+                      <CardTitle className="text-white text-lg">Download</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <ExportButtons
+                        request={{ summaries: [{ ...metadata, url: metadata?.url || url, summary, translations }] }}
+                        disabled={isProcessing}
+                        onError={setError}
+                      />
                     </CardContent>
                   </Card>
                 )}
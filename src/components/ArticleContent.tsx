@@ -0,0 +1,65 @@
+// components/ArticleContent.tsx
+import type { ContentBlock, StructuredDocument } from '@/lib/extract';
+
+interface Props {
+  document: StructuredDocument;
+}
+
+const headingSizes = ['text-lg', 'text-base', 'text-sm', 'text-sm', 'text-xs', 'text-xs'];
+
+function Block({ block }: { block: ContentBlock }) {
+  switch (block.type) {
+    case 'heading':
+      return (
+        <p className={`font-semibold text-white ${headingSizes[block.level - 1]} pt-2`} role="heading" aria-level={block.level}>
+          {block.text}
+        </p>
+      );
+    case 'list': {
+      const List = block.ordered ? 'ol' : 'ul';
+      return (
+        <List className={`${block.ordered ? 'list-decimal' : 'list-disc'} pl-5 space-y-1`}>
+          {block.items.map((item, index) => <li key={index}>{item}</li>)}
+        </List>
+      );
+    }
+    case 'code':
+      return (
+        <pre className="bg-black/40 rounded p-2 overflow-x-auto text-xs font-mono whitespace-pre">
+          <code>{block.text}</code>
+        </pre>
+      );
+    case 'quote':
+      return <blockquote className="border-l-2 border-white/30 pl-3 italic">{block.text}</blockquote>;
+    default:
+      return <p>{block.text}</p>;
+  }
+}
+
+export default function ArticleContent({ document }: Props) {
+  const external = document.links.filter(link => link.external);
+
+  return (
+    <div className="space-y-3 text-white/80 text-xs sm:text-sm leading-relaxed break-words">
+      {document.blocks.map((block, index) => <Block key={index} block={block} />)}
+
+      {external.length > 0 && (
+        <details className="pt-2 border-t border-white/10">
+          <summary className="cursor-pointer text-white/60">Links ({external.length})</summary>
+          <ul className="list-disc pl-5 pt-1 space-y-1">
+            {external.map(link => (
+              <li key={link.url}>
+                <a href={link.url} target="_blank" rel="noopener noreferrer" className="text-blue-300 underline">
+                  {link.text}
+                </a>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+      {document.images.length > 0 && (
+        <p className="text-white/50 text-xs">{document.images.length} image{document.images.length === 1 ? '' : 's'} in the article</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+// components/ExportButtons.tsx - Download buttons for /api/export
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/button';
+import type { ExportFormat } from '@/lib/export';
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'pdf', label: 'PDF' },
+  { format: 'docx', label: 'Word' },
+  { format: 'md', label: 'Markdown' },
+  { format: 'html', label: 'HTML' },
+  { format: 'json', label: 'JSON' }
+];
+
+interface Props {
+  // POST /api/export body without the format: stored summary ids, or summaries sent as-is
+  request: { ids: string[] } | { summaries: unknown[] };
+  disabled?: boolean;
+  onError: (message: string) => void;
+}
+
+export default function ExportButtons({ request, disabled, onError }: Props) {
+  const [pending, setPending] = useState<ExportFormat | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setPending(format);
+    try {
+      const response = await fetch('/api/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...request, format })
+      });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || `API error: ${response.status}`);
+      }
+
+      const filename = /filename="([^"]+)"/.exec(response.headers.get('Content-Disposition') || '');
+      const href = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = href;
+      link.download = filename ? filename[1] : `summary.${format}`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      setTimeout(() => URL.revokeObjectURL(href), 1000);
+    } catch (err: any) {
+      onError(err.message || 'Export failed');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {FORMATS.map(({ format, label }) => (
+        <Button
+          key={format}
+          size="sm"
+          className="bg-black/50 hover:bg-black/70 text-white disabled:opacity-50"
+          disabled={disabled || pending !== null}
+          onClick={() => handleExport(format)}
+        >
+          {pending === format ? 'Preparing...' : label}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -1,12 +1,18 @@
 // components/SummaryCard.tsx
 import { translateToUrdu } from '@/lib/translator';
+import { getDirection, isLanguageCode, LANGUAGES } from '@/lib/languages';
 
 interface Props {
   summary: string;
+  // Stored translations keyed by language code; when omitted the summary is translated to Urdu on the fly
+  translations?: Partial<Record<string, string>>;
 }
 
-export default function SummaryCard({ summary }: Props) {
-  const urduTranslation = translateToUrdu(summary);
+export default function SummaryCard({ summary, translations }: Props) {
+  const entries = Object.keys(translations || {})
+    .map(code => ({ code, text: translations?.[code] || '' }))
+    .filter(entry => entry.text);
+  const shown = entries.length > 0 ? entries : [{ code: 'ur', text: translateToUrdu(summary) }];
 
   return (
     <div className="grid md:grid-cols-2 gap-6 p-4 rounded-xl shadow bg-white">
@@ -14,9 +20,17 @@ export default function SummaryCard({ summary }: Props) {
         <h2 className="text-lg font-semibold mb-2">📝 English Summary</h2>
         <p className="text-gray-800">{summary}</p>
       </div>
-      <div className="pl-4">
-        <h2 className="text-lg font-semibold mb-2">📖 اردو ترجمہ</h2>
-        <p className="text-gray-900 urdu-text leading-loose">{urduTranslation}</p>
+      <div className="pl-4 space-y-4">
+        {shown.map(({ code, text }) => {
+          const language = isLanguageCode(code) ? LANGUAGES[code] : undefined;
+          const dir = getDirection(code, text);
+          return (
+            <div key={code} dir={dir}>
+              <h2 className="text-lg font-semibold mb-2">📖 {language ? language.heading : code}</h2>
+              <p className={`text-gray-900 leading-loose ${language?.className || ''}`} dir={dir}>{text}</p>
+            </div>
+          );
+        })}
       </div>
     </div>
   );
@@ -0,0 +1,9 @@
+// instrumentation.ts - Runs once when the server starts
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    // Fail fast on a broken site rules file instead of on the first scrape
+    const { getSiteRules } = await import('@/lib/siteRules');
+    getSiteRules();
+  }
+}
@@ -0,0 +1,181 @@
+// lib/abstractive.ts - LLM-backed abstractive summaries with extractive fallback
+
+import OpenAI from 'openai';
+import { summarise, splitSentences, SummariseOptions } from '@/lib/summariser';
+
+export interface LlmConfig {
+  apiKey?: string;
+  // Any OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 for a local server
+  baseUrl?: string;
+  model: string;
+  // Maximum characters of article text sent in one request
+  chunkSize: number;
+  timeout: number;
+}
+
+export interface AbstractiveOptions {
+  // Used for the prompt length hint and for the extractive fallback
+  extractive?: SummariseOptions;
+  config?: LlmConfig;
+}
+
+export interface AbstractiveResult {
+  summary: string;
+  provider: 'llm' | 'extractive';
+  // Why the extractive summariser was used instead, if it was
+  fallbackReason?: string;
+  chunks?: number;
+}
+
+export function getLlmConfig(): LlmConfig {
+  return {
+    apiKey: process.env.OPENAI_API_KEY,
+    baseUrl: process.env.OPENAI_BASE_URL,
+    model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+    chunkSize: Number(process.env.LLM_CHUNK_SIZE) || 12000,
+    timeout: Number(process.env.LLM_TIMEOUT_MS) || 60000
+  };
+}
+
+export function isLlmConfigured(config: LlmConfig = getLlmConfig()): boolean {
+  return Boolean(config.apiKey || config.baseUrl);
+}
+
+// Groups sentences into chunks of at most `chunkSize` characters (a single longer
+// sentence becomes its own chunk)
+export function chunkText(text: string, chunkSize: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  splitSentences(text).forEach(sentence => {
+    if (current && current.length + sentence.length + 1 > chunkSize) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current} ${sentence}` : sentence;
+  });
+
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+function lengthHint(options: SummariseOptions = {}): string {
+  if (options.sentences) {
+    return `in about ${options.sentences} sentences`;
+  }
+  if (options.ratio) {
+    return `in about ${Math.round(options.ratio * 100)}% of the original length`;
+  }
+  return 'in a short paragraph';
+}
+
+// Rounds of summarising the section summaries again before giving up on the LLM
+const MAX_REDUCE_DEPTH = 3;
+
+async function complete(client: OpenAI, model: string, prompt: string, text: string): Promise<string> {
+  const response = await client.chat.completions.create({
+    model,
+    temperature: 0.2,
+    messages: [
+      { role: 'system', content: prompt },
+      { role: 'user', content: text }
+    ]
+  });
+
+  const content = response.choices[0]?.message?.content?.trim();
+  if (!content) {
+    throw new Error('LLM returned an empty response');
+  }
+  return content;
+}
+
+async function mapReduce(
+  client: OpenAI,
+  config: LlmConfig,
+  text: string,
+  hint: string,
+  depth = 0
+): Promise<{ summary: string; chunks: number }> {
+  const chunks = chunkText(text, config.chunkSize);
+
+  if (chunks.length <= 1) {
+    const summary = await complete(
+      client,
+      config.model,
+      `Summarise the following blog post ${hint}. Reply with the summary only.`,
+      chunks[0] || text
+    );
+    return { summary, chunks: 1 };
+  }
+
+  // Map: summarise each chunk on its own
+  const partials: string[] = [];
+  for (const chunk of chunks) {
+    partials.push(await complete(
+      client,
+      config.model,
+      'Summarise this section of a longer blog post in a few sentences. Keep names, numbers and key claims. Reply with the summary only.',
+      chunk
+    ));
+  }
+
+  // Reduce: combine the section summaries, recursing if they are still too long. A model whose
+  // summaries don't get shorter would recurse forever, so that throws and the caller falls back.
+  const combined = partials.join('\n\n');
+  if (combined.length > config.chunkSize) {
+    if (combined.length >= text.length) {
+      throw new Error('Section summaries are no shorter than the text they summarise');
+    }
+    if (depth + 1 >= MAX_REDUCE_DEPTH) {
+      throw new Error(`Section summaries are still over ${config.chunkSize} characters after ${MAX_REDUCE_DEPTH} rounds`);
+    }
+    const reduced = await mapReduce(client, config, combined, hint, depth + 1);
+    return { summary: reduced.summary, chunks: chunks.length + reduced.chunks };
+  }
+
+  const summary = await complete(
+    client,
+    config.model,
+    `These are summaries of consecutive sections of one blog post. Write a single coherent summary of the whole post ${hint}. Reply with the summary only.`,
+    combined
+  );
+  return { summary, chunks: chunks.length };
+}
+
+export async function summariseAbstractive(
+  text: string,
+  options: AbstractiveOptions = {}
+): Promise<AbstractiveResult> {
+  const config = options.config || getLlmConfig();
+  const fallback = (fallbackReason: string): AbstractiveResult => ({
+    summary: summarise(text, options.extractive),
+    provider: 'extractive',
+    fallbackReason
+  });
+
+  if (!text || text.trim().length === 0) {
+    return { summary: '', provider: 'extractive' };
+  }
+
+  if (!isLlmConfigured(config)) {
+    return fallback('No LLM provider is configured');
+  }
+
+  try {
+    const client = new OpenAI({
+      // Local OpenAI-compatible servers usually ignore the key but the SDK requires one
+      apiKey: config.apiKey || 'not-needed',
+      baseURL: config.baseUrl || undefined,
+      timeout: config.timeout,
+      maxRetries: 1
+    });
+
+    const { summary, chunks } = await mapReduce(client, config, text, lengthHint(options.extractive));
+    return { summary, provider: 'llm', chunks };
+  } catch (error: any) {
+    console.warn('Abstractive summary failed, falling back to extractive:', error.message);
+    return fallback(`LLM request failed: ${error.message || 'unknown error'}`);
+  }
+}
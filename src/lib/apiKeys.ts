@@ -0,0 +1,341 @@
+// lib/apiKeys.ts - API keys, per-client rate limits and daily quotas for the routes that fetch pages
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { createRateLimiter, RateLimiter } from '@/lib/rateLimit';
+import { getStorage, Repository, WithId } from '@/lib/storage';
+
+export interface ApiKeyDocument {
+  name: string;
+  // SHA-256 of the key; the key itself is only shown once, when it is created
+  keyHash: string;
+  // First characters of the key, so owners can tell their keys apart
+  prefix: string;
+  // Requests per minute; unset uses API_RATE_LIMIT, 0 means unlimited
+  rateLimit?: number;
+  // Requests per UTC day; unset uses API_DAILY_QUOTA, 0 means unlimited
+  dailyQuota?: number;
+  createdAt: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+}
+
+// An ApiKeyDocument without its hash, as returned by the key management API
+export type ApiKey = Omit<WithId<ApiKeyDocument>, 'keyHash'>;
+
+// Requests accepted for one key on one UTC day
+export interface ApiUsageDocument {
+  keyId: string;
+  // YYYY-MM-DD
+  day: string;
+  requests: number;
+  // Requests refused by the rate limit or quota
+  limited: number;
+  // Accepted requests per route, e.g. { scrape: 3, summarise: 12 }
+  routes: Record<string, number>;
+  updatedAt: Date;
+}
+
+export type ApiUsage = Omit<ApiUsageDocument, 'updatedAt'>;
+
+export interface ApiKeyInput {
+  name?: unknown;
+  rateLimit?: unknown;
+  dailyQuota?: unknown;
+  revoked?: unknown;
+}
+
+export interface ApiAccessConfig {
+  // Refuse requests without a key; otherwise they are limited per IP address
+  required: boolean;
+  adminKey?: string;
+  // Requests per minute for each key and for each anonymous IP address (0 turns the limit off)
+  keyRateLimit: number;
+  ipRateLimit: number;
+  // Requests per minute for each IP address across all keys, so one client can't add up several keys
+  keyedIpRateLimit: number;
+  dailyQuota: number;
+  // Proxies in front of the app that append to X-Forwarded-For
+  trustedProxyHops: number;
+}
+
+// Who a request was accepted for
+export interface ApiClient {
+  keyId?: string;
+  ip: string;
+}
+
+// Thrown for missing or invalid keys (401), refused admin calls (403), limits (429) and bad input
+export class ApiAccessError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 401 | 403 | 404 | 429 = 400,
+    public headers: Record<string, string> = {}
+  ) {
+    super(message);
+    this.name = 'ApiAccessError';
+  }
+}
+
+export const API_KEYS_COLLECTION = 'api_keys';
+export const API_USAGE_COLLECTION = 'api_usage';
+const KEY_PREFIX = 'bsk_';
+
+export function getApiAccessConfig(): ApiAccessConfig {
+  const number = (value: string | undefined, fallback: number) =>
+    value !== undefined && value !== '' && !isNaN(Number(value)) ? Number(value) : fallback;
+  return {
+    required: process.env.API_KEYS_REQUIRED === 'true',
+    adminKey: process.env.API_ADMIN_KEY || undefined,
+    keyRateLimit: number(process.env.API_RATE_LIMIT, 30),
+    ipRateLimit: number(process.env.API_IP_RATE_LIMIT, 10),
+    keyedIpRateLimit: number(process.env.API_KEYED_IP_RATE_LIMIT, 60),
+    dailyQuota: number(process.env.API_DAILY_QUOTA, 1000),
+    trustedProxyHops: Math.max(1, Math.floor(number(process.env.TRUSTED_PROXY_HOPS, 1)))
+  };
+}
+
+export function apiKeyRepository(): Repository<ApiKeyDocument> {
+  return getStorage().collection<ApiKeyDocument>(API_KEYS_COLLECTION);
+}
+
+export function apiUsageRepository(): Repository<ApiUsageDocument> {
+  return getStorage().collection<ApiUsageDocument>(API_USAGE_COLLECTION);
+}
+
+// Kept on globalThis so every route shares the same buckets, like the storage driver
+const globalLimits = globalThis as typeof globalThis & { __apiRateLimiter?: RateLimiter };
+
+function rateLimiter(): RateLimiter {
+  if (!globalLimits.__apiRateLimiter) {
+    globalLimits.__apiRateLimiter = createRateLimiter();
+  }
+  return globalLimits.__apiRateLimiter;
+}
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function toApiKey(doc: WithId<ApiKeyDocument>): ApiKey {
+  const { keyHash, ...key } = doc;
+  return key;
+}
+
+function today(now = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+function secondsUntilTomorrow(now = new Date()): number {
+  const tomorrow = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.ceil((tomorrow - now.getTime()) / 1000);
+}
+
+// The key from `Authorization: Bearer <key>` or `X-API-Key: <key>`
+function requestKey(req: Request): string | undefined {
+  const authorization = req.headers.get('authorization') || '';
+  const bearer = /^Bearer\s+(\S+)$/i.exec(authorization.trim());
+  return bearer ? bearer[1] : req.headers.get('x-api-key')?.trim() || undefined;
+}
+
+// The client address. Each proxy appends the address it was connected from to X-Forwarded-For,
+// and the Next.js server fills it with the connection address when a request arrives without one,
+// so only entries counted from the right are trustworthy: the one `trustedProxyHops` from the end
+// was added by the outermost trusted proxy. Shorter headers give the nearest hop, never the leftmost.
+export function clientIp(req: Request, config = getApiAccessConfig()): string {
+  const hops = (req.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  if (hops.length === 0) {
+    return 'unknown';
+  }
+  return hops.length >= config.trustedProxyHops ? hops[hops.length - config.trustedProxyHops] : hops[hops.length - 1];
+}
+
+function limit(value: unknown, field: string): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !isFinite(value) || value < 0 || Math.floor(value) !== value) {
+    throw new ApiAccessError(`"${field}" must be a whole number of at least 0`);
+  }
+  return value;
+}
+
+export async function createApiKey(input: ApiKeyInput): Promise<{ key: ApiKey; secret: string }> {
+  if (typeof input.name !== 'string' || !input.name.trim()) {
+    throw new ApiAccessError('"name" is required');
+  }
+  const secret = KEY_PREFIX + randomBytes(24).toString('hex');
+  const doc = await apiKeyRepository().insert({
+    name: input.name.trim(),
+    keyHash: hashKey(secret),
+    prefix: secret.slice(0, KEY_PREFIX.length + 8),
+    rateLimit: limit(input.rateLimit, 'rateLimit'),
+    dailyQuota: limit(input.dailyQuota, 'dailyQuota'),
+    createdAt: new Date()
+  });
+  return { key: toApiKey(doc), secret };
+}
+
+export async function listApiKeys(): Promise<ApiKey[]> {
+  const { items } = await apiKeyRepository().query({ sort: { field: 'createdAt', direction: 'desc' } });
+  return items.map(toApiKey);
+}
+
+export async function getApiKey(id: string): Promise<ApiKey | null> {
+  const doc = await apiKeyRepository().findById(id);
+  return doc ? toApiKey(doc) : null;
+}
+
+// Renames a key, changes its limits (null restores the default) or revokes/restores it
+export async function updateApiKey(id: string, input: ApiKeyInput): Promise<ApiKey> {
+  const existing = await apiKeyRepository().findById(id);
+  if (!existing) {
+    throw new ApiAccessError('API key not found', 404);
+  }
+
+  const patch: Partial<ApiKeyDocument> = {};
+  if (input.name !== undefined) {
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+      throw new ApiAccessError('"name" must not be empty');
+    }
+    patch.name = input.name.trim();
+  }
+  if (input.rateLimit !== undefined) {
+    patch.rateLimit = limit(input.rateLimit, 'rateLimit');
+  }
+  if (input.dailyQuota !== undefined) {
+    patch.dailyQuota = limit(input.dailyQuota, 'dailyQuota');
+  }
+  if (input.revoked !== undefined) {
+    if (typeof input.revoked !== 'boolean') {
+      throw new ApiAccessError('"revoked" must be true or false');
+    }
+    patch.revokedAt = input.revoked ? existing.revokedAt || new Date() : undefined;
+  }
+
+  const updated = await apiKeyRepository().updateById(id, patch);
+  if (!updated) {
+    throw new ApiAccessError('API key not found', 404);
+  }
+  return toApiKey(updated);
+}
+
+// Deletes the key; its usage history is kept
+export async function deleteApiKey(id: string): Promise<void> {
+  if (!(await apiKeyRepository().deleteById(id))) {
+    throw new ApiAccessError('API key not found', 404);
+  }
+}
+
+// Daily counters for a key, oldest first. `from` and `to` are inclusive YYYY-MM-DD days.
+export async function getApiUsage(keyId: string, from?: string, to?: string): Promise<ApiUsage[]> {
+  const day = /^\d{4}-\d{2}-\d{2}$/;
+  if ((from && !day.test(from)) || (to && !day.test(to))) {
+    throw new ApiAccessError('"from" and "to" must be dates like 2025-01-31');
+  }
+  const usage = await apiUsageRepository().findMany({ keyId });
+  return usage
+    .filter(entry => (!from || entry.day >= from) && (!to || entry.day <= to))
+    .sort((a, b) => (a.day < b.day ? -1 : a.day > b.day ? 1 : 0))
+    .map(({ id, updatedAt, ...entry }) => entry);
+}
+
+// Counters are read and written back rather than incremented in place, so concurrent
+// requests can occasionally be under-counted; quotas are a budget, not a hard guarantee
+async function recordUsage(keyId: string, route: string, cost: number, limited: boolean): Promise<ApiUsageDocument> {
+  const repository = apiUsageRepository();
+  const day = today();
+  const existing = await repository.findOne({ keyId, day });
+  const entry: ApiUsageDocument = existing
+    ? { keyId, day, requests: existing.requests, limited: existing.limited, routes: { ...existing.routes }, updatedAt: new Date() }
+    : { keyId, day, requests: 0, limited: 0, routes: {}, updatedAt: new Date() };
+
+  if (limited) {
+    entry.limited += 1;
+  } else {
+    entry.requests += cost;
+    entry.routes[route] = (entry.routes[route] || 0) + cost;
+  }
+
+  if (existing) {
+    await repository.updateById(existing.id, entry);
+  } else {
+    await repository.insert(entry);
+  }
+  return entry;
+}
+
+function tooManyRequests(message: string, retryAfter: number): ApiAccessError {
+  return new ApiAccessError(message, 429, { 'Retry-After': String(Math.max(1, retryAfter)) });
+}
+
+// Checks the request's API key, rate limits and daily quota and counts it against them.
+// Requests without a key are limited per IP address, or refused when keys are required;
+// requests with one are limited per key and, with a higher limit, per IP address as well.
+// `cost` is what the request counts for against the quota, e.g. the number of URLs in a batch.
+export async function authorizeRequest(
+  req: Request,
+  route: string,
+  cost = 1,
+  config = getApiAccessConfig()
+): Promise<ApiClient> {
+  const ip = clientIp(req, config);
+  const secret = requestKey(req);
+
+  if (!secret) {
+    if (config.required) {
+      throw new ApiAccessError('An API key is required (send it as "Authorization: Bearer <key>")', 401);
+    }
+    const bucket = config.ipRateLimit > 0 ? rateLimiter().take(`ip:${ip}`, config.ipRateLimit) : null;
+    if (bucket && !bucket.allowed) {
+      throw tooManyRequests(`Too many requests from ${ip}; try again in ${bucket.retryAfter}s`, bucket.retryAfter);
+    }
+    return { ip };
+  }
+
+  const key = await apiKeyRepository().findOne({ keyHash: hashKey(secret) });
+  if (!key || key.revokedAt) {
+    throw new ApiAccessError('Invalid or revoked API key', 401);
+  }
+
+  const ipBucket = config.keyedIpRateLimit > 0 ? rateLimiter().take(`keyed-ip:${ip}`, config.keyedIpRateLimit) : null;
+  if (ipBucket && !ipBucket.allowed) {
+    await recordUsage(key.id, route, cost, true);
+    throw tooManyRequests(`Too many requests from ${ip}; try again in ${ipBucket.retryAfter}s`, ipBucket.retryAfter);
+  }
+
+  const rate = key.rateLimit ?? config.keyRateLimit;
+  const bucket = rate > 0 ? rateLimiter().take(`key:${key.id}`, rate) : null;
+  if (bucket && !bucket.allowed) {
+    await recordUsage(key.id, route, cost, true);
+    throw tooManyRequests(`Rate limit of ${rate} requests per minute exceeded`, bucket.retryAfter);
+  }
+
+  const quota = key.dailyQuota ?? config.dailyQuota;
+  if (quota > 0) {
+    const usage = await apiUsageRepository().findOne({ keyId: key.id, day: today() });
+    if ((usage ? usage.requests : 0) + cost > quota) {
+      await recordUsage(key.id, route, cost, true);
+      throw tooManyRequests(`Daily quota of ${quota} requests used up; it resets at midnight UTC`, secondsUntilTomorrow());
+    }
+  }
+
+  await recordUsage(key.id, route, cost, false);
+  await apiKeyRepository().updateById(key.id, { lastUsedAt: new Date() });
+  return { keyId: key.id, ip };
+}
+
+// Key management and other admin calls (glossary changes, deleting summaries and feeds, reloading
+// site rules) must carry API_ADMIN_KEY; without it configured they are refused
+export function authorizeAdmin(req: Request, config = getApiAccessConfig()): void {
+  if (!config.adminKey) {
+    throw new ApiAccessError('Admin calls are disabled; set API_ADMIN_KEY to enable them', 403);
+  }
+  const secret = requestKey(req);
+  // Hashing first gives equal-length buffers, which timingSafeEqual requires
+  if (!secret || !timingSafeEqual(Buffer.from(hashKey(secret), 'hex'), Buffer.from(hashKey(config.adminKey), 'hex'))) {
+    throw new ApiAccessError('The admin API key is required for this call', 401);
+  }
+}
@@ -0,0 +1,58 @@
+// lib/cache.ts - Small in-process TTL cache
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+export interface TtlCache<T> {
+  // Returns the value only while it is still fresh
+  get(key: string): T | undefined;
+  // Returns the value even when expired, for revalidation
+  peek(key: string): { value: T; fresh: boolean } | undefined;
+  set(key: string, value: T, ttl?: number): void;
+  delete(key: string): boolean;
+  clear(): void;
+  size(): number;
+}
+
+export function createTtlCache<T>(defaultTtl: number, maxEntries = 500): TtlCache<T> {
+  const entries = new Map<string, CacheEntry<T>>();
+
+  const peek = (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    return { value: entry.value, fresh: entry.expiresAt > Date.now() };
+  };
+
+  return {
+    get(key) {
+      const entry = peek(key);
+      return entry && entry.fresh ? entry.value : undefined;
+    },
+
+    peek,
+
+    set(key, value, ttl = defaultTtl) {
+      // Re-inserting moves the key to the end so the oldest entries are evicted first
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttl });
+
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) {
+          break;
+        }
+        entries.delete(oldest);
+      }
+    },
+
+    delete: key => entries.delete(key),
+
+    clear: () => entries.clear(),
+
+    size: () => entries.size
+  };
+}
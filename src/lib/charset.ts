@@ -0,0 +1,203 @@
+// lib/charset.ts - Character encoding detection and decoding for fetched and uploaded documents
+
+export type CharsetSource = 'bom' | 'header' | 'meta' | 'sniffed' | 'default';
+
+export interface DecodedText {
+  text: string;
+  // WHATWG encoding name, e.g. "utf-8", "windows-1256", "shift_jis"
+  charset: string;
+  // Where the charset came from
+  source: CharsetSource;
+}
+
+// How far into the document <meta charset> and the XML declaration are looked for
+const PRESCAN_BYTES = 4096;
+// How much of the body is used to guess an undeclared encoding
+const SNIFF_BYTES = 64 * 1024;
+
+// Unicode ranges of the scripts each legacy encoding is used for; a guess is judged by how much
+// of the decoded non-ASCII text falls in its script
+const SCRIPTS: Record<string, [number, number][]> = {
+  arabic: [[0x0600, 0x06ff], [0x0750, 0x077f], [0xfb50, 0xfdff], [0xfe70, 0xfeff]],
+  hebrew: [[0x0590, 0x05ff]],
+  cyrillic: [[0x0400, 0x04ff]],
+  greek: [[0x0370, 0x03ff]],
+  latin: [[0x00a0, 0x024f], [0x2010, 0x203a], [0x20ac, 0x20ac]],
+  japanese: [[0x3000, 0x30ff], [0x4e00, 0x9fff], [0xff00, 0xffef]],
+  chinese: [[0x3000, 0x303f], [0x4e00, 0x9fff], [0xff00, 0xffef]],
+  korean: [[0xac00, 0xd7af], [0x3130, 0x318f], [0x3000, 0x303f]]
+};
+
+// Candidates in order of preference when they score the same. Multi-byte encodings come first:
+// text in the wrong one usually fails to decode at all. Single-byte encodings whose letters share
+// byte values (Arabic and Cyrillic, Cyrillic and Greek) can tie, so the earlier one wins; pages
+// in the later ones need to declare their charset.
+const SNIFF_CANDIDATES: [string, string][] = [
+  ['shift_jis', 'japanese'],
+  ['euc-jp', 'japanese'],
+  ['euc-kr', 'korean'],
+  ['gbk', 'chinese'],
+  ['big5', 'chinese'],
+  ['windows-1256', 'arabic'],
+  ['windows-1255', 'hebrew'],
+  ['windows-1251', 'cyrillic'],
+  ['windows-1253', 'greek'],
+  ['windows-1252', 'latin']
+];
+
+// Node's TextDecoder decodes windows-1252 (and the labels that mean it, like iso-8859-1) as
+// Latin-1, leaving 0x80-0x9F as control characters; these are the characters they stand for
+const WINDOWS_1252_HIGH = '\u20ac\u0081\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u008d\u017d\u008f' +
+  '\u0090\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u009d\u017e\u0178';
+
+function decode(bytes: Uint8Array, charset: string, fatal = false): string {
+  if (charset === 'windows-1252') {
+    return Buffer.from(bytes).toString('latin1').replace(/[\u0080-\u009f]/g, c => WINDOWS_1252_HIGH.charAt(c.charCodeAt(0) - 0x80));
+  }
+  return new TextDecoder(charset, { fatal }).decode(bytes);
+}
+
+function isKana(code: number): boolean {
+  return code >= 0x3040 && code <= 0x30ff;
+}
+
+// The WHATWG name for a charset label, or undefined if it isn't one the runtime can decode
+export function normaliseCharset(label: string | undefined): string | undefined {
+  if (!label) {
+    return undefined;
+  }
+  try {
+    return new TextDecoder(label.trim().replace(/^["']|["']$/g, '')).encoding;
+  } catch {
+    return undefined;
+  }
+}
+
+export function charsetFromContentType(contentType: string | undefined): string | undefined {
+  const match = /charset\s*=\s*["']?([^;"'\s]+)/i.exec(contentType || '');
+  return match ? normaliseCharset(match[1]) : undefined;
+}
+
+export function charsetFromBom(bytes: Uint8Array): string | undefined {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return 'utf-8';
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return 'utf-16be';
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return 'utf-16le';
+  }
+  return undefined;
+}
+
+// <meta charset>, <meta http-equiv="Content-Type" content="...; charset=..."> or an XML declaration
+// near the start of the document. Declarations of UTF-16 can't be true in a byte-readable prescan,
+// so they mean UTF-8, as browsers do.
+export function charsetFromMarkup(bytes: Uint8Array): string | undefined {
+  const head = Buffer.from(bytes.subarray(0, PRESCAN_BYTES)).toString('latin1').replace(/<!--[\s\S]*?-->/g, '');
+  const xml = /^\s*<\?xml[^>]*\bencoding\s*=\s*["']([^"']+)["']/i.exec(head);
+  const meta = /<meta\b[^>]*?\bcharset\s*=\s*["']?\s*([^\s"'\/>;]+)/i.exec(head);
+  const charset = normaliseCharset((xml && xml[1]) || (meta && meta[1]) || undefined);
+  return charset && /^utf-16/.test(charset) ? 'utf-8' : charset;
+}
+
+function isValidUtf8(bytes: Uint8Array): boolean {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    // A multi-byte character cut off at the end of the sample doesn't count against it
+    const end = Math.max(0, bytes.length - 3);
+    try {
+      new TextDecoder('utf-8', { fatal: true }).decode(bytes.subarray(0, end));
+      return bytes.length > 3;
+    } catch {
+      return false;
+    }
+  }
+}
+
+function inScript(code: number, script: string): boolean {
+  return SCRIPTS[script].some(([from, to]) => code >= from && code <= to);
+}
+
+// Guesses the encoding of a document that doesn't declare one: UTF-8 if the bytes are valid
+// UTF-8, otherwise the legacy encoding whose decoded text is most consistently in its own script
+export function sniffCharset(bytes: Uint8Array): string | undefined {
+  const sample = bytes.subarray(0, SNIFF_BYTES);
+  let ascii = true;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] >= 0x80) {
+      ascii = false;
+      break;
+    }
+  }
+  if (ascii) {
+    return undefined;
+  }
+  if (isValidUtf8(sample)) {
+    return 'utf-8';
+  }
+
+  let best: string | undefined;
+  let bestScore = 0;
+  SNIFF_CANDIDATES.forEach(([charset, script]) => {
+    let text: string;
+    try {
+      text = decode(sample, charset, true);
+    } catch {
+      return;
+    }
+    let nonAscii = 0;
+    let matching = 0;
+    let kana = 0;
+    for (let i = 0; i < text.length; i++) {
+      const code = text.charCodeAt(i);
+      if (code >= 0x80) {
+        nonAscii++;
+        if (inScript(code, script)) {
+          matching++;
+        }
+        if (isKana(code)) {
+          kana++;
+        }
+      }
+    }
+    let score = nonAscii > 0 ? matching / nonAscii : 0;
+    // Japanese prose is full of kana; Korean or Chinese bytes read as Japanese come out as kanji
+    if (script === 'japanese' && kana < matching / 10) {
+      score /= 2;
+    }
+    if (score > bestScore) {
+      best = charset;
+      bestScore = score;
+    }
+  });
+  return bestScore >= 0.6 ? best : undefined;
+}
+
+// Decodes a document the way browsers do: byte order mark, then the Content-Type charset, then
+// (for HTML and XML) declarations in the markup, then a guess from the bytes, then windows-1252
+// for markup and UTF-8 for everything else
+export function decodeBody(bytes: Uint8Array, contentType?: string, markup = true): DecodedText {
+  const detectors: [CharsetSource, () => string | undefined][] = [
+    ['bom', () => charsetFromBom(bytes)],
+    ['header', () => charsetFromContentType(contentType)],
+    ['meta', () => (markup ? charsetFromMarkup(bytes) : undefined)],
+    ['sniffed', () => sniffCharset(bytes)]
+  ];
+  let charset: string | undefined;
+  let source: CharsetSource = 'default';
+  for (let i = 0; i < detectors.length && !charset; i++) {
+    charset = detectors[i][1]();
+    source = detectors[i][0];
+  }
+  if (!charset) {
+    charset = markup ? 'windows-1252' : 'utf-8';
+    source = 'default';
+  }
+
+  // TextDecoder drops a byte order mark that matches the encoding
+  return { text: decode(bytes, charset), charset, source };
+}
@@ -0,0 +1,88 @@
+// lib/dictionaries/ar.ts - English → Arabic word list used by the dictionary translator
+
+import type { TranslationMap } from '@/lib/dictionaries';
+
+const ar: TranslationMap = {
+  // Startup & Demo Day terms
+  'startup': 'شركة ناشئة',
+  'startups': 'الشركات الناشئة',
+  'founder': 'مؤسس',
+  'founders': 'المؤسسون',
+  'investor': 'مستثمر',
+  'investors': 'المستثمرون',
+  'demo': 'عرض',
+  'day': 'يوم',
+  'pitch': 'عرض تقديمي',
+  'presentation': 'عرض تقديمي',
+  'batch': 'دفعة',
+  'company': 'شركة',
+  'companies': 'شركات',
+  'product': 'منتج',
+  'users': 'المستخدمون',
+  'customers': 'العملاء',
+  'growth': 'نمو',
+  'market': 'سوق',
+  'software': 'برمجيات',
+  'meetings': 'اجتماعات',
+  'schedule': 'جدول',
+  'algorithm': 'خوارزمية',
+  'problem': 'مشكلة',
+  'solution': 'حل',
+  'team': 'فريق',
+  'design': 'تصميم',
+  'deck': 'عرض شرائح',
+  'slide': 'شريحة',
+  'ideas': 'أفكار',
+  'advice': 'نصيحة',
+  'guide': 'دليل',
+
+  // General
+  'important': 'مهم',
+  'key': 'أساسي',
+  'main': 'رئيسي',
+  'best': 'أفضل',
+  'first': 'أول',
+  'new': 'جديد',
+  'year': 'سنة',
+  'people': 'الناس',
+  'result': 'نتيجة',
+  'results': 'نتائج',
+  'future': 'مستقبل',
+  'success': 'نجاح',
+  'today': 'اليوم',
+  'and': 'و',
+  'or': 'أو',
+  'but': 'لكن',
+  'in': 'في',
+  'of': 'من',
+  'from': 'من',
+  'to': 'إلى',
+  'for': 'لـ',
+  'with': 'مع',
+  'without': 'بدون',
+  'on': 'على',
+  'at': 'في',
+  'is': 'هو',
+  'are': 'هم',
+  'was': 'كان',
+  'not': 'ليس',
+  'no': 'لا',
+  'this': 'هذا',
+  'that': 'ذلك',
+  'these': 'هذه',
+  'they': 'هم',
+  'we': 'نحن',
+  'you': 'أنت',
+  'your': 'لك',
+  'it': 'هو',
+  'a': 'واحد',
+  'an': 'واحد',
+  'very': 'جدا',
+  'more': 'أكثر',
+  'most': 'معظم',
+  'can': 'يمكن',
+  'will': 'سوف',
+  'should': 'يجب'
+};
+
+export default ar;
@@ -0,0 +1,88 @@
+// lib/dictionaries/es.ts - English → Spanish word list used by the dictionary translator
+
+import type { TranslationMap } from '@/lib/dictionaries';
+
+const es: TranslationMap = {
+  // Startup & Demo Day terms
+  'startup': 'startup',
+  'founder': 'fundador',
+  'founders': 'fundadores',
+  'investor': 'inversor',
+  'investors': 'inversores',
+  'demo': 'demo',
+  'day': 'día',
+  'pitch': 'presentación',
+  'presentation': 'presentación',
+  'batch': 'grupo',
+  'company': 'empresa',
+  'companies': 'empresas',
+  'product': 'producto',
+  'users': 'usuarios',
+  'customers': 'clientes',
+  'growth': 'crecimiento',
+  'market': 'mercado',
+  'software': 'software',
+  'meetings': 'reuniones',
+  'schedule': 'agenda',
+  'algorithm': 'algoritmo',
+  'problem': 'problema',
+  'solution': 'solución',
+  'team': 'equipo',
+  'design': 'diseño',
+  'deck': 'presentación',
+  'slide': 'diapositiva',
+  'ideas': 'ideas',
+  'advice': 'consejos',
+  'guide': 'guía',
+
+  // General
+  'the': 'el',
+  'important': 'importante',
+  'key': 'clave',
+  'main': 'principal',
+  'best': 'mejor',
+  'first': 'primero',
+  'new': 'nuevo',
+  'year': 'año',
+  'people': 'personas',
+  'result': 'resultado',
+  'results': 'resultados',
+  'future': 'futuro',
+  'success': 'éxito',
+  'today': 'hoy',
+  'and': 'y',
+  'or': 'o',
+  'but': 'pero',
+  'in': 'en',
+  'of': 'de',
+  'from': 'de',
+  'to': 'a',
+  'for': 'para',
+  'with': 'con',
+  'without': 'sin',
+  'on': 'en',
+  'at': 'en',
+  'is': 'es',
+  'are': 'son',
+  'was': 'fue',
+  'not': 'no',
+  'no': 'no',
+  'this': 'este',
+  'that': 'ese',
+  'these': 'estos',
+  'they': 'ellos',
+  'we': 'nosotros',
+  'you': 'usted',
+  'your': 'su',
+  'it': 'eso',
+  'a': 'un',
+  'an': 'un',
+  'very': 'muy',
+  'more': 'más',
+  'most': 'la mayoría',
+  'can': 'puede',
+  'will': 'va a',
+  'should': 'debería'
+};
+
+export default es;
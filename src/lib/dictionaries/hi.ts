@@ -0,0 +1,88 @@
+// lib/dictionaries/hi.ts - English → Hindi word list used by the dictionary translator
+
+import type { TranslationMap } from '@/lib/dictionaries';
+
+const hi: TranslationMap = {
+  // Startup & Demo Day terms
+  'startup': 'स्टार्टअप',
+  'startups': 'स्टार्टअप',
+  'founder': 'संस्थापक',
+  'founders': 'संस्थापक',
+  'investor': 'निवेशक',
+  'investors': 'निवेशक',
+  'demo': 'डेमो',
+  'day': 'दिवस',
+  'pitch': 'पिच',
+  'presentation': 'प्रस्तुति',
+  'batch': 'बैच',
+  'company': 'कंपनी',
+  'companies': 'कंपनियाँ',
+  'product': 'उत्पाद',
+  'users': 'उपयोगकर्ता',
+  'customers': 'ग्राहक',
+  'growth': 'विकास',
+  'market': 'बाज़ार',
+  'software': 'सॉफ़्टवेयर',
+  'meetings': 'बैठकें',
+  'schedule': 'कार्यक्रम',
+  'algorithm': 'एल्गोरिदम',
+  'problem': 'समस्या',
+  'solution': 'समाधान',
+  'team': 'टीम',
+  'design': 'डिज़ाइन',
+  'deck': 'डेक',
+  'slide': 'स्लाइड',
+  'ideas': 'विचार',
+  'advice': 'सलाह',
+  'guide': 'मार्गदर्शिका',
+
+  // General
+  'important': 'महत्वपूर्ण',
+  'key': 'मुख्य',
+  'main': 'मुख्य',
+  'best': 'सबसे अच्छा',
+  'first': 'पहला',
+  'new': 'नया',
+  'year': 'वर्ष',
+  'people': 'लोग',
+  'result': 'परिणाम',
+  'results': 'परिणाम',
+  'future': 'भविष्य',
+  'success': 'सफलता',
+  'today': 'आज',
+  'and': 'और',
+  'or': 'या',
+  'but': 'लेकिन',
+  'in': 'में',
+  'of': 'का',
+  'from': 'से',
+  'to': 'को',
+  'for': 'के लिए',
+  'with': 'के साथ',
+  'without': 'के बिना',
+  'on': 'पर',
+  'at': 'पर',
+  'is': 'है',
+  'are': 'हैं',
+  'was': 'था',
+  'not': 'नहीं',
+  'no': 'नहीं',
+  'this': 'यह',
+  'that': 'वह',
+  'these': 'ये',
+  'they': 'वे',
+  'we': 'हम',
+  'you': 'आप',
+  'your': 'आपका',
+  'it': 'यह',
+  'a': 'एक',
+  'an': 'एक',
+  'very': 'बहुत',
+  'more': 'अधिक',
+  'most': 'अधिकांश',
+  'can': 'सकते',
+  'will': 'करेंगे',
+  'should': 'चाहिए'
+};
+
+export default hi;
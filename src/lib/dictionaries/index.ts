@@ -0,0 +1,76 @@
+// lib/dictionaries/index.ts - Built-in per-language word lists and the glossary matcher
+
+import type { LanguageCode } from '@/lib/languages';
+import ur from '@/lib/dictionaries/ur';
+import ar from '@/lib/dictionaries/ar';
+import hi from '@/lib/dictionaries/hi';
+import es from '@/lib/dictionaries/es';
+
+export interface TranslationMap {
+  [key: string]: string;
+}
+
+export const dictionaries: Record<LanguageCode, TranslationMap> = { ur, ar, hi, es };
+
+// English words that have no equivalent in the target language and are simply dropped
+export const droppedWords: Record<LanguageCode, string[]> = {
+  ur: ['the'],
+  ar: ['the'],
+  hi: ['the'],
+  es: []
+};
+
+// A term → translation map ready for matching; multi-word phrases win over single words
+export interface CompiledGlossary {
+  terms: TranslationMap;
+  pattern: RegExp;
+}
+
+const WORD_CHARS = "A-Za-z0-9'’";
+
+// Lower-cases and collapses whitespace so "Demo  Day" and "demo day" are the same term
+export function normaliseTerm(term: string): string {
+  return term.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function compileGlossary(entries: TranslationMap): CompiledGlossary {
+  const terms: TranslationMap = {};
+  Object.keys(entries).forEach(term => {
+    terms[normaliseTerm(term)] = entries[term];
+  });
+
+  // Longest terms first so "demo day" is matched before "demo"; any other word is
+  // consumed whole by the trailing alternative so terms never match mid-word.
+  const alternatives = Object.keys(terms)
+    .filter(term => term.length > 0)
+    .sort((a, b) => b.length - a.length)
+    .map(term => term.split(' ').map(escapeRegExp).join('\\s+'));
+  const phrases = alternatives.length > 0 ? `(?:${alternatives.join('|')})(?![${WORD_CHARS}])|` : '';
+
+  return {
+    terms,
+    pattern: new RegExp(`${phrases}[A-Za-z0-9][${WORD_CHARS}]*`, 'gi')
+  };
+}
+
+// The built-in dictionary for a language, with dropped words mapped to ''
+export function builtinEntries(language: LanguageCode): TranslationMap {
+  const entries: TranslationMap = { ...dictionaries[language] };
+  droppedWords[language].forEach(word => {
+    entries[word] = '';
+  });
+  return entries;
+}
+
+const builtinCache: Partial<Record<LanguageCode, CompiledGlossary>> = {};
+
+export function builtinGlossary(language: LanguageCode): CompiledGlossary {
+  if (!builtinCache[language]) {
+    builtinCache[language] = compileGlossary(builtinEntries(language));
+  }
+  return builtinCache[language]!;
+}
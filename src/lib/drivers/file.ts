@@ -0,0 +1,52 @@
+// lib/drivers/file.ts - JSON file storage driver that works offline
+
+import { promises as fs, existsSync, readFileSync } from 'fs';
+import path from 'path';
+import type { StorageDriver } from '@/lib/storage';
+import { createMemoryRepository, MemoryData } from '@/lib/drivers/memory';
+
+// Date fields (camelCase `...At`) are stored as ISO strings and revived on load
+// so documents round-trip; snake_case columns like `created_at` stay strings.
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+function reviveDates(key: string, value: unknown): unknown {
+  return /[a-z]At$/.test(key) && typeof value === 'string' && ISO_DATE.test(value)
+    ? new Date(value)
+    : value;
+}
+
+function loadData(filePath: string): MemoryData {
+  if (!existsSync(filePath)) {
+    return {};
+  }
+  try {
+    return JSON.parse(readFileSync(filePath, 'utf8'), reviveDates);
+  } catch (error) {
+    console.error(`Error reading storage file ${filePath}:`, error);
+    throw new Error(`Storage file ${filePath} is not valid JSON`);
+  }
+}
+
+export function createFileDriver(filePath: string): StorageDriver {
+  const resolvedPath = path.resolve(filePath);
+  const data = loadData(resolvedPath);
+  let pendingWrite: Promise<void> = Promise.resolve();
+
+  // Writes are serialised so concurrent saves never interleave on disk. Each write waits for the
+  // previous one whether or not it failed, and callers only see their own write's result.
+  const persist = (): Promise<void> => {
+    const write = pendingWrite.catch(() => undefined).then(async () => {
+      await fs.mkdir(path.dirname(resolvedPath), { recursive: true });
+      const tmpPath = `${resolvedPath}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(data, null, 2), 'utf8');
+      await fs.rename(tmpPath, resolvedPath);
+    });
+    pendingWrite = write;
+    return write;
+  };
+
+  return {
+    name: 'file',
+    collection: <T extends object>(name: string) => createMemoryRepository<T>(data, name, persist)
+  };
+}
@@ -0,0 +1,124 @@
+// lib/drivers/memory.ts - In-process storage driver, also the base of the file driver
+
+import { randomUUID } from 'crypto';
+import type { QueryOptions, Repository, StorageDriver, WithId } from '@/lib/storage';
+
+export type MemoryData = Record<string, WithId<any>[]>;
+
+export function matchesFilter<T extends object>(doc: T, filter: Partial<T> = {}): boolean {
+  return (Object.keys(filter) as (keyof T)[]).every(key => doc[key] === filter[key]);
+}
+
+function toTime(value: unknown): number {
+  return value instanceof Date ? value.getTime() : new Date(value as string).getTime();
+}
+
+function inRange<T extends object>(doc: T, range: QueryOptions<T>['range']): boolean {
+  if (!range) {
+    return true;
+  }
+  const time = toTime(doc[range.field]);
+  if ((range.from || range.to) && isNaN(time)) {
+    return false;
+  }
+  if (range.from && time < range.from.getTime()) {
+    return false;
+  }
+  if (range.to && time > range.to.getTime()) {
+    return false;
+  }
+  return true;
+}
+
+// Missing values sort before everything else, as in MongoDB
+function compareValues(a: unknown, b: unknown): number {
+  if (a === undefined || a === null || b === undefined || b === null) {
+    return (a === undefined || a === null ? 0 : 1) - (b === undefined || b === null ? 0 : 1);
+  }
+  if (a instanceof Date || b instanceof Date) {
+    return toTime(a) - toTime(b);
+  }
+  if (a === b) {
+    return 0;
+  }
+  return (a as any) < (b as any) ? -1 : 1;
+}
+
+export function createMemoryRepository<T extends object>(
+  data: MemoryData,
+  name: string,
+  onChange: () => Promise<void> = async () => {}
+): Repository<T> {
+  const rows = (): WithId<T>[] => {
+    if (!data[name]) {
+      data[name] = [];
+    }
+    return data[name];
+  };
+
+  return {
+    async insert(doc) {
+      const stored = { ...doc, id: randomUUID() } as WithId<T>;
+      rows().push(stored);
+      await onChange();
+      return { ...stored };
+    },
+
+    async findById(id) {
+      const found = rows().find(row => row.id === id);
+      return found ? { ...found } : null;
+    },
+
+    async findOne(filter) {
+      const found = rows().find(row => matchesFilter(row, filter));
+      return found ? { ...found } : null;
+    },
+
+    async findMany(filter) {
+      return rows()
+        .filter(row => matchesFilter(row, filter))
+        .map(row => ({ ...row }));
+    },
+
+    async query({ filter, range, sort, skip = 0, limit }) {
+      const matched = rows().filter(row => matchesFilter(row, filter) && inRange(row, range));
+      if (sort) {
+        const direction = sort.direction === 'asc' ? 1 : -1;
+        matched.sort((a, b) => direction * compareValues(a[sort.field], b[sort.field]));
+      }
+      const end = limit === undefined ? undefined : skip + limit;
+      return {
+        items: matched.slice(skip, end).map(row => ({ ...row })),
+        total: matched.length
+      };
+    },
+
+    async updateById(id, patch) {
+      const index = rows().findIndex(row => row.id === id);
+      if (index === -1) {
+        return null;
+      }
+      const updated = { ...rows()[index], ...patch, id } as WithId<T>;
+      rows()[index] = updated;
+      await onChange();
+      return { ...updated };
+    },
+
+    async deleteById(id) {
+      const index = rows().findIndex(row => row.id === id);
+      if (index === -1) {
+        return false;
+      }
+      rows().splice(index, 1);
+      await onChange();
+      return true;
+    }
+  };
+}
+
+export function createMemoryDriver(data: MemoryData = {}): StorageDriver {
+  return {
+    name: 'memory',
+    collection: <T extends object>(name: string) => createMemoryRepository<T>(data, name)
+  };
+}
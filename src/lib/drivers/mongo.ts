@@ -0,0 +1,109 @@
+// lib/drivers/mongo.ts - MongoDB storage driver
+
+import { MongoClient, ObjectId, Db, Filter, Document } from 'mongodb';
+import type { Repository, StorageDriver, WithId } from '@/lib/storage';
+
+function toDocument<T extends object>(raw: Document): WithId<T> {
+  const { _id, ...rest } = raw;
+  return { ...(rest as T), id: String(_id) };
+}
+
+function toObjectId(id: string): ObjectId | null {
+  return ObjectId.isValid(id) ? new ObjectId(id) : null;
+}
+
+export function createMongoDriver(uri: string, dbName: string): StorageDriver {
+  const client = new MongoClient(uri);
+  let db: Promise<Db> | null = null;
+
+  const getDb = (): Promise<Db> => {
+    if (!db) {
+      db = client.connect().then(connected => connected.db(dbName));
+      // A failed connection is retried on the next call instead of being cached
+      db.catch(() => {
+        db = null;
+      });
+    }
+    return db;
+  };
+
+  const collection = <T extends object>(name: string): Repository<T> => {
+    const coll = async () => (await getDb()).collection(name);
+
+    return {
+      async insert(doc) {
+        const result = await (await coll()).insertOne({ ...doc });
+        return { ...doc, id: result.insertedId.toHexString() };
+      },
+
+      async findById(id) {
+        const objectId = toObjectId(id);
+        if (!objectId) {
+          return null;
+        }
+        const found = await (await coll()).findOne({ _id: objectId });
+        return found ? toDocument<T>(found) : null;
+      },
+
+      async findOne(filter) {
+        const found = await (await coll()).findOne(filter as Filter<Document>);
+        return found ? toDocument<T>(found) : null;
+      },
+
+      async findMany(filter = {}) {
+        const found = await (await coll()).find(filter as Filter<Document>).toArray();
+        return found.map(raw => toDocument<T>(raw));
+      },
+
+      async query({ filter = {}, range, sort, skip = 0, limit }) {
+        const where: Filter<Document> = { ...filter };
+        if (range && (range.from || range.to)) {
+          where[range.field] = {
+            ...(range.from ? { $gte: range.from } : {}),
+            ...(range.to ? { $lte: range.to } : {})
+          };
+        }
+
+        let cursor = (await coll()).find(where).skip(skip);
+        if (sort) {
+          cursor = cursor.sort({ [sort.field]: sort.direction === 'asc' ? 1 : -1 });
+        }
+        if (limit !== undefined) {
+          cursor = cursor.limit(limit);
+        }
+
+        const [found, total] = await Promise.all([
+          cursor.toArray(),
+          (await coll()).countDocuments(where)
+        ]);
+        return { items: found.map(raw => toDocument<T>(raw)), total };
+      },
+
+      async updateById(id, patch) {
+        const objectId = toObjectId(id);
+        if (!objectId) {
+          return null;
+        }
+        const fields: Document = { ...patch };
+        delete fields.id;
+        const found = await (await coll()).findOneAndUpdate(
+          { _id: objectId },
+          { $set: fields },
+          { returnDocument: 'after' }
+        );
+        return found ? toDocument<T>(found) : null;
+      },
+
+      async deleteById(id) {
+        const objectId = toObjectId(id);
+        if (!objectId) {
+          return false;
+        }
+        const result = await (await coll()).deleteOne({ _id: objectId });
+        return result.deletedCount > 0;
+      }
+    };
+  };
+
+  return { name: 'mongo', collection };
+}
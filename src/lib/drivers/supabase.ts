@@ -0,0 +1,93 @@
+// lib/drivers/supabase.ts - Supabase (Postgres) storage driver
+//
+// Each collection maps to a table of the same name with a uuid `id` primary key
+// defaulting to gen_random_uuid().
+
+import { createClient } from '@supabase/supabase-js';
+import type { Repository, StorageDriver, WithId } from '@/lib/storage';
+
+export function createSupabaseDriver(url: string, key: string): StorageDriver {
+  const client = createClient(url, key, { auth: { persistSession: false } });
+
+  const collection = <T extends object>(name: string): Repository<T> => {
+    const table = () => client.from(name);
+
+    return {
+      async insert(doc) {
+        const { data, error } = await table().insert(doc).select().single();
+        if (error) {
+          throw new Error(`Supabase insert into ${name} failed: ${error.message}`);
+        }
+        return data as WithId<T>;
+      },
+
+      async findById(id) {
+        const { data, error } = await table().select('*').eq('id', id).maybeSingle();
+        if (error) {
+          throw new Error(`Supabase select from ${name} failed: ${error.message}`);
+        }
+        return (data as WithId<T>) || null;
+      },
+
+      async findOne(filter) {
+        const { data, error } = await table().select('*').match(filter as Record<string, unknown>).limit(1);
+        if (error) {
+          throw new Error(`Supabase select from ${name} failed: ${error.message}`);
+        }
+        return (data?.[0] as WithId<T>) || null;
+      },
+
+      async findMany(filter = {}) {
+        const { data, error } = await table().select('*').match(filter as Record<string, unknown>);
+        if (error) {
+          throw new Error(`Supabase select from ${name} failed: ${error.message}`);
+        }
+        return (data || []) as WithId<T>[];
+      },
+
+      async query({ filter = {}, range, sort, skip = 0, limit }) {
+        let request = table()
+          .select('*', { count: 'exact' })
+          .match(filter as Record<string, unknown>);
+        if (range?.from) {
+          request = request.gte(range.field, range.from.toISOString());
+        }
+        if (range?.to) {
+          request = request.lte(range.field, range.to.toISOString());
+        }
+        if (sort) {
+          request = request.order(sort.field, { ascending: sort.direction === 'asc' });
+        }
+        if (limit !== undefined) {
+          request = request.range(skip, skip + limit - 1);
+        } else if (skip > 0) {
+          request = request.range(skip, Number.MAX_SAFE_INTEGER);
+        }
+
+        const { data, error, count } = await request;
+        if (error) {
+          throw new Error(`Supabase select from ${name} failed: ${error.message}`);
+        }
+        return { items: (data || []) as WithId<T>[], total: count ?? 0 };
+      },
+
+      async updateById(id, patch) {
+        const { data, error } = await table().update(patch).eq('id', id).select().maybeSingle();
+        if (error) {
+          throw new Error(`Supabase update of ${name} failed: ${error.message}`);
+        }
+        return (data as WithId<T>) || null;
+      },
+
+      async deleteById(id) {
+        const { data, error } = await table().delete().eq('id', id).select('id');
+        if (error) {
+          throw new Error(`Supabase delete from ${name} failed: ${error.message}`);
+        }
+        return (data || []).length > 0;
+      }
+    };
+  };
+
+  return { name: 'supabase', collection };
+}
@@ -0,0 +1,492 @@
+// lib/export.ts - Summaries as downloadable Markdown, HTML, PDF, DOCX and JSON documents
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  AlignmentType,
+  CharacterSet,
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  Packer,
+  Paragraph,
+  TextRun
+} from 'docx';
+import PDFDocument from 'pdfkit';
+import { getSummaryDetail, SummaryDetail } from '@/lib/history';
+import { detectDirection, isLanguageCode, LanguageCode, LANGUAGES } from '@/lib/languages';
+import type { Translations } from '@/lib/mongodb';
+import { contentKind } from '@/lib/sources';
+
+export type ExportFormat = 'md' | 'html' | 'pdf' | 'docx' | 'json';
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  json: 'application/json; charset=utf-8'
+};
+
+export const MAX_EXPORT_ITEMS = 100;
+
+// One summary as it appears in an export; dates are ISO 8601 strings
+export interface ExportItem {
+  id?: string;
+  url: string;
+  title?: string;
+  description?: string;
+  author?: string;
+  siteName?: string;
+  publishedAt?: string;
+  language?: string;
+  wordCount?: number;
+  readingTime?: number;
+  summary: string;
+  translations: Translations;
+  createdAt?: string;
+}
+
+export interface ExportFile {
+  body: Buffer;
+  contentType: string;
+  filename: string;
+}
+
+export class ExportError extends Error {
+  constructor(message: string, public status: 400 | 404 | 500 = 400) {
+    super(message);
+    this.name = 'ExportError';
+  }
+}
+
+// Fonts the PDF and DOCX use for Urdu and Arabic. The Nastaliq font ships with
+// @expo-google-fonts/noto-nastaliq-urdu; EXPORT_URDU_FONT and EXPORT_URDU_FONT_NAME swap in
+// another TTF (the name must be the font's family name for Word to pick it up).
+export function getExportConfig(): { urduFontPath: string; urduFontName: string } {
+  return {
+    urduFontPath: process.env.EXPORT_URDU_FONT || path.join(
+      process.cwd(), 'node_modules', '@expo-google-fonts', 'noto-nastaliq-urdu', '400Regular', 'NotoNastaliqUrdu_400Regular.ttf'
+    ),
+    urduFontName: process.env.EXPORT_URDU_FONT_NAME || 'Noto Nastaliq Urdu'
+  };
+}
+
+// Languages for the lang attribute and Word's proofing of right-to-left runs
+const BIDI_LOCALES: Partial<Record<LanguageCode, string>> = { ur: 'ur-PK', ar: 'ar-SA' };
+
+const fontCache = new Map<string, Promise<Buffer>>();
+
+function loadFont(fontPath: string): Promise<Buffer> {
+  let font = fontCache.get(fontPath);
+  if (!font) {
+    font = fs.readFile(fontPath).catch(error => {
+      fontCache.delete(fontPath);
+      console.error(`Could not read export font ${fontPath}:`, error.message);
+      throw new ExportError('The Urdu font for PDF and Word exports is missing; set EXPORT_URDU_FONT', 500);
+    });
+    fontCache.set(fontPath, font);
+  }
+  return font;
+}
+
+function toIsoString(value: Date | string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+export function toExportItem(detail: SummaryDetail): ExportItem {
+  return {
+    id: detail.id,
+    url: detail.url,
+    title: detail.title,
+    description: detail.description,
+    author: detail.author,
+    siteName: detail.siteName,
+    publishedAt: toIsoString(detail.publishedAt),
+    language: detail.language,
+    wordCount: detail.wordCount,
+    readingTime: detail.readingTime,
+    summary: detail.summary,
+    translations: detail.translations || {},
+    createdAt: toIsoString(detail.createdAt)
+  };
+}
+
+// Loads stored summaries in the order given; a missing id fails the whole export
+export async function loadExportItems(ids: string[]): Promise<ExportItem[]> {
+  const details = await Promise.all(ids.map(id => getSummaryDetail(id)));
+  const missing = ids.filter((_id, i) => !details[i]);
+  if (missing.length > 0) {
+    throw new ExportError(`Summary not found: ${missing.join(', ')}`, 404);
+  }
+  return details.map(detail => toExportItem(detail!));
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+// Only web pages get a link in the exports; pasted text and uploads have no address to open
+function isWebUrl(url: string): boolean {
+  return /^https?:\/\/[^\s]+$/i.test(url);
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && isFinite(value) ? value : undefined;
+}
+
+// Validates summaries posted by the client, e.g. a result that was never stored
+export function parseExportItems(value: unknown): ExportItem[] {
+  if (!Array.isArray(value)) {
+    throw new ExportError('summaries must be an array');
+  }
+  return value.map((raw, i) => {
+    if (!raw || typeof raw !== 'object') {
+      throw new ExportError(`summaries[${i}] must be an object`);
+    }
+    const url = optionalString(raw.url);
+    const summary = optionalString(raw.summary);
+    if (!url || !summary) {
+      throw new ExportError(`summaries[${i}] needs a url and a summary`);
+    }
+    if (!isWebUrl(url) && !contentKind(url)) {
+      throw new ExportError(`summaries[${i}].url must be an http(s), paste:// or upload:// URL`);
+    }
+    const translations: Translations = {};
+    if (raw.translations && typeof raw.translations === 'object') {
+      Object.keys(raw.translations).forEach(code => {
+        const text = raw.translations[code];
+        // Accepts plain strings or the { text } objects /api/summarise returns
+        const translated = optionalString(typeof text === 'object' && text ? text.text : text);
+        if (isLanguageCode(code) && translated) {
+          translations[code] = translated;
+        }
+      });
+    }
+    return {
+      id: optionalString(raw.id),
+      url,
+      title: optionalString(raw.title),
+      description: optionalString(raw.description),
+      author: optionalString(raw.author),
+      siteName: optionalString(raw.siteName),
+      publishedAt: toIsoString(optionalString(raw.publishedAt)),
+      language: optionalString(raw.language),
+      wordCount: optionalNumber(raw.wordCount),
+      readingTime: optionalNumber(raw.readingTime),
+      summary,
+      translations,
+      createdAt: toIsoString(optionalString(raw.createdAt))
+    };
+  });
+}
+
+function itemTitle(item: ExportItem): string {
+  return item.title || item.url;
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' });
+}
+
+// Label/value pairs shown under each title
+function metadataLines(item: ExportItem): [string, string][] {
+  const lines: [string, string][] = [['Source', item.url]];
+  if (item.siteName) {
+    lines.push(['Site', item.siteName]);
+  }
+  if (item.author) {
+    lines.push(['Author', item.author]);
+  }
+  if (item.publishedAt) {
+    lines.push(['Published', formatDate(item.publishedAt)]);
+  }
+  if (item.readingTime) {
+    lines.push(['Reading time', `${item.readingTime} min${item.wordCount ? ` (${item.wordCount} words)` : ''}`]);
+  }
+  if (item.createdAt) {
+    lines.push(['Summarised', formatDate(item.createdAt)]);
+  }
+  return lines;
+}
+
+// Translations in the order of LANGUAGES, so Urdu comes first
+function translationsOf(item: ExportItem): [LanguageCode, string][] {
+  return (Object.keys(LANGUAGES) as LanguageCode[])
+    .filter(code => item.translations[code])
+    .map(code => [code, item.translations[code]!] as [LanguageCode, string]);
+}
+
+function documentTitle(items: ExportItem[]): string {
+  return items.length === 1 ? itemTitle(items[0]) : `Blog summaries (${items.length})`;
+}
+
+function exportFilename(items: ExportItem[], format: ExportFormat): string {
+  const base = items.length === 1
+    ? itemTitle(items[0]).toLowerCase().replace(/^https?:\/\//, '').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60)
+    : `summaries-${new Date().toISOString().slice(0, 10)}`;
+  return `${base || 'summary'}.${format}`;
+}
+
+function toMarkdown(items: ExportItem[]): string {
+  const sections = items.map(item => {
+    const lines = [`# ${itemTitle(item)}`, ''];
+    metadataLines(item).forEach(([label, value]) => lines.push(`- **${label}:** ${value}`));
+    lines.push('', '## Summary', '', item.summary);
+    translationsOf(item).forEach(([code, text]) => {
+      lines.push('', `## ${LANGUAGES[code].heading} (${LANGUAGES[code].name})`, '', text);
+    });
+    return lines.join('\n');
+  });
+  return sections.join('\n\n---\n\n') + '\n';
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function htmlParagraphs(text: string): string {
+  return text.split(/\n{2,}/).map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`).join('\n');
+}
+
+function toHtml(items: ExportItem[]): string {
+  const articles = items.map(item => {
+    const meta = metadataLines(item).map(([label, value]) => {
+      const shown = label === 'Source' && isWebUrl(value) ? `<a href="${escapeHtml(value)}">${escapeHtml(value)}</a>` : escapeHtml(value);
+      return `<li><strong>${label}:</strong> ${shown}</li>`;
+    });
+    const translations = translationsOf(item).map(([code, text]) => {
+      const language = LANGUAGES[code];
+      return `<section lang="${code}" dir="${language.dir}" class="${language.className || ''}">
+<h2>${escapeHtml(language.heading)}</h2>
+${htmlParagraphs(text)}
+</section>`;
+    });
+    const titleDir = detectDirection(itemTitle(item));
+    return `<article>
+<h1 dir="${titleDir}">${escapeHtml(itemTitle(item))}</h1>
+<ul class="meta">
+${meta.join('\n')}
+</ul>
+<section lang="en">
+<h2>Summary</h2>
+${htmlParagraphs(item.summary)}
+</section>
+${translations.join('\n')}
+</article>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(documentTitle(items))}</title>
+<link rel="stylesheet" href="https://fonts.googleapis.com/css2?family=Noto+Nastaliq+Urdu&family=Noto+Naskh+Arabic&display=swap">
+<style>
+body { font-family: Georgia, 'Times New Roman', serif; max-width: 46rem; margin: 2rem auto; padding: 0 1rem; line-height: 1.6; color: #1f2937; }
+article + article { border-top: 1px solid #d1d5db; margin-top: 2.5rem; padding-top: 1.5rem; }
+.meta { list-style: none; padding: 0; color: #4b5563; font-size: 0.9rem; }
+[dir="rtl"] { text-align: right; }
+.urdu-text { font-family: 'Noto Nastaliq Urdu', 'Jameel Noori Nastaleeq', serif; line-height: 2.4; font-size: 1.15rem; }
+.arabic-text { font-family: 'Noto Naskh Arabic', 'Traditional Arabic', serif; line-height: 2; font-size: 1.1rem; }
+</style>
+</head>
+<body>
+${articles.join('\n')}
+</body>
+</html>
+`;
+}
+
+function toJson(items: ExportItem[]): string {
+  return JSON.stringify({ exportedAt: new Date().toISOString(), count: items.length, summaries: items }, null, 2) + '\n';
+}
+
+// pdfkit draws with the standard PDF fonts, which only cover Latin text; Urdu and Arabic use the
+// embedded Nastaliq font (fontkit shapes and orders the glyphs of each line)
+async function toPdf(items: ExportItem[]): Promise<Buffer> {
+  const font = await loadFont(getExportConfig().urduFontPath);
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: 56,
+    info: { Title: documentTitle(items), Creator: 'Blog Summarizer' }
+  });
+  doc.registerFont('Nastaliq', font);
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const heading = (text: string) => {
+    doc.font('Helvetica-Bold').fontSize(13).fillColor('#111827').text(text);
+    doc.moveDown(0.3);
+  };
+  const paragraph = (text: string) => {
+    doc.font('Helvetica').fontSize(11).fillColor('#111827').text(text, { align: 'justify', lineGap: 2 });
+  };
+  const rtlText = (text: string, size: number) => {
+    doc.font('Nastaliq').fontSize(size).fillColor('#111827').text(text, { align: 'right', lineGap: size * 0.6 });
+  };
+
+  items.forEach((item, i) => {
+    if (i > 0) {
+      doc.addPage();
+    }
+    const title = itemTitle(item);
+    if (detectDirection(title) === 'rtl') {
+      rtlText(title, 18);
+    } else {
+      doc.font('Helvetica-Bold').fontSize(18).fillColor('#111827').text(title);
+    }
+    doc.moveDown(0.5);
+
+    metadataLines(item).forEach(([label, value]) => {
+      doc.font('Helvetica-Bold').fontSize(9).fillColor('#4b5563').text(`${label}: `, { continued: true });
+      if (label === 'Source' && isWebUrl(value)) {
+        doc.font('Helvetica').fillColor('#1d4ed8').text(value, { link: value, underline: true });
+      } else {
+        doc.font('Helvetica').text(value);
+      }
+    });
+
+    doc.moveDown();
+    heading('Summary');
+    // Extractive summaries of Urdu or Arabic articles are in the article's language
+    if (detectDirection(item.summary) === 'rtl') {
+      rtlText(item.summary, 12);
+    } else {
+      paragraph(item.summary);
+    }
+
+    translationsOf(item).forEach(([code, text]) => {
+      const language = LANGUAGES[code];
+      doc.moveDown();
+      if (language.dir === 'rtl') {
+        rtlText(language.heading, 14);
+        rtlText(text, 12);
+      } else if (code === 'hi') {
+        // No bundled Devanagari font; the Word and HTML exports include Hindi
+        heading(`${language.name} summary`);
+        doc.font('Helvetica-Oblique').fontSize(10).fillColor('#6b7280')
+          .text('Hindi text is not included in PDF exports; use the Word or HTML export instead.');
+      } else {
+        heading(language.heading);
+        paragraph(text);
+      }
+    });
+  });
+
+  doc.end();
+  return done;
+}
+
+function docxParagraphs(text: string, options: { rtl?: LanguageCode; font?: string } = {}): Paragraph[] {
+  return text.split(/\n{2,}/).map(paragraph => new Paragraph({
+    bidirectional: !!options.rtl,
+    spacing: { after: 160, line: options.rtl ? 360 : 276 },
+    alignment: options.rtl ? undefined : AlignmentType.JUSTIFIED,
+    children: [new TextRun(options.rtl
+      ? {
+          text: paragraph,
+          rightToLeft: true,
+          font: options.font,
+          size: 28,
+          sizeComplexScript: 28,
+          language: { bidirectional: BIDI_LOCALES[options.rtl] }
+        }
+      : { text: paragraph })]
+  }));
+}
+
+// Word embeds the Nastaliq font so Urdu renders the same on machines that don't have it
+async function toDocx(items: ExportItem[]): Promise<Buffer> {
+  const config = getExportConfig();
+  const font = await loadFont(config.urduFontPath);
+  const children: Paragraph[] = [];
+
+  items.forEach((item, i) => {
+    const title = itemTitle(item);
+    const titleRtl = detectDirection(title) === 'rtl';
+    children.push(new Paragraph({
+      heading: HeadingLevel.HEADING_1,
+      pageBreakBefore: i > 0,
+      bidirectional: titleRtl,
+      children: [new TextRun(titleRtl ? { text: title, rightToLeft: true, font: config.urduFontName } : { text: title })]
+    }));
+
+    metadataLines(item).forEach(([label, value]) => {
+      children.push(new Paragraph({
+        children: [
+          new TextRun({ text: `${label}: `, bold: true, size: 18, color: '4B5563' }),
+          label === 'Source' && isWebUrl(value)
+            ? new ExternalHyperlink({ link: value, children: [new TextRun({ text: value, style: 'Hyperlink', size: 18 })] })
+            : new TextRun({ text: value, size: 18, color: '4B5563' })
+        ]
+      }));
+    });
+
+    children.push(new Paragraph({ heading: HeadingLevel.HEADING_2, spacing: { before: 240 }, children: [new TextRun('Summary')] }));
+    children.push(...docxParagraphs(item.summary));
+
+    translationsOf(item).forEach(([code, text]) => {
+      const language = LANGUAGES[code];
+      const rtl = language.dir === 'rtl' ? code : undefined;
+      const fontName = code === 'ur' || code === 'ar' ? config.urduFontName : undefined;
+      children.push(new Paragraph({
+        heading: HeadingLevel.HEADING_2,
+        spacing: { before: 240 },
+        bidirectional: !!rtl,
+        children: [new TextRun(rtl ? { text: language.heading, rightToLeft: true, font: fontName } : { text: language.heading })]
+      }));
+      children.push(...docxParagraphs(text, { rtl, font: fontName }));
+    });
+  });
+
+  const doc = new Document({
+    title: documentTitle(items),
+    creator: 'Blog Summarizer',
+    fonts: [{ name: config.urduFontName, data: font, characterSet: CharacterSet.ARABIC }],
+    sections: [{ children }]
+  });
+  return Packer.toBuffer(doc);
+}
+
+export async function renderExport(items: ExportItem[], format: ExportFormat): Promise<ExportFile> {
+  if (items.length === 0) {
+    throw new ExportError('Nothing to export');
+  }
+  if (items.length > MAX_EXPORT_ITEMS) {
+    throw new ExportError(`At most ${MAX_EXPORT_ITEMS} summaries can be exported at once`);
+  }
+
+  let body: Buffer;
+  switch (format) {
+    case 'md':
+      body = Buffer.from(toMarkdown(items), 'utf8');
+      break;
+    case 'html':
+      body = Buffer.from(toHtml(items), 'utf8');
+      break;
+    case 'json':
+      body = Buffer.from(toJson(items), 'utf8');
+      break;
+    case 'pdf':
+      body = await toPdf(items);
+      break;
+    case 'docx':
+      body = await toDocx(items);
+      break;
+  }
+  return { body, contentType: CONTENT_TYPES[format], filename: exportFilename(items, format) };
+}
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(CONTENT_TYPES, value);
+}
@@ -0,0 +1,219 @@
+// lib/extract.ts - Turns an article's HTML into structured blocks, links, images and Markdown
+
+export type ContentBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'code'; text: string; language?: string }
+  | { type: 'quote'; text: string };
+
+export interface ArticleLink {
+  url: string;
+  text: string;
+  // Points to another site than the article itself
+  external: boolean;
+}
+
+export interface ArticleImage {
+  src: string;
+  alt?: string;
+}
+
+export interface StructuredDocument {
+  blocks: ContentBlock[];
+  links: ArticleLink[];
+  images: ArticleImage[];
+  markdown: string;
+}
+
+const HEADING = /^h([1-6])$/;
+
+// Containers whose children are walked for blocks; anything else with text becomes a paragraph
+const CONTAINERS = new Set([
+  'article', 'aside', 'body', 'div', 'main', 'section', 'figure', 'figcaption', 'header', 'footer',
+  'details', 'summary', 'center', 'span', 'form', 'dl', 'dd', 'dt', 'picture', 'a'
+]);
+
+const INLINE = new Set([
+  'a', 'abbr', 'b', 'bdi', 'bdo', 'br', 'cite', 'code', 'data', 'del', 'dfn', 'em', 'i', 'ins', 'kbd',
+  'mark', 'q', 's', 'samp', 'small', 'span', 'strong', 'sub', 'sup', 'time', 'u', 'var', 'wbr'
+]);
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function resolve(href: string | undefined, baseUrl: string): string | null {
+  if (!href || /^(javascript|mailto|tel|data):/i.test(href.trim())) {
+    return null;
+  }
+  try {
+    const url = new URL(href.trim(), baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+function isTag(node: cheerio.Element): node is cheerio.TagElement {
+  return node.type === 'tag';
+}
+
+// Walks `root` and returns its content as blocks. Runs of inline content and bare text
+// inside containers are gathered into paragraphs.
+export function extractBlocks($: cheerio.Root, root: cheerio.Cheerio): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+  let inline = '';
+
+  const flush = () => {
+    const text = collapse(inline);
+    if (text) {
+      blocks.push({ type: 'paragraph', text });
+    }
+    inline = '';
+  };
+
+  const walk = (node: cheerio.Element) => {
+    if (node.type === 'text') {
+      inline += node.data || '';
+      return;
+    }
+    if (!isTag(node)) {
+      return;
+    }
+
+    const name = node.name.toLowerCase();
+    const element = $(node);
+    const heading = HEADING.exec(name);
+
+    if (INLINE.has(name) && element.find('p, div, ul, ol, pre, blockquote, h1, h2, h3, h4, h5, h6').length === 0) {
+      inline += name === 'br' ? '\n' : element.text();
+      return;
+    }
+
+    if (heading) {
+      flush();
+      const text = collapse(element.text());
+      if (text) {
+        blocks.push({ type: 'heading', level: Number(heading[1]), text });
+      }
+    } else if (name === 'p') {
+      flush();
+      inline = element.text();
+      flush();
+    } else if (name === 'ul' || name === 'ol') {
+      flush();
+      const items = element.children('li').toArray().map(item => collapse($(item).text())).filter(Boolean);
+      if (items.length > 0) {
+        blocks.push({ type: 'list', ordered: name === 'ol', items });
+      }
+    } else if (name === 'pre') {
+      flush();
+      const code = element.find('code').first();
+      const language = (code.attr('class') || element.attr('class') || '').match(/(?:language|lang)-([\w+#-]+)/);
+      const text = element.text().replace(/^\n+|\s+$/g, '');
+      if (text) {
+        blocks.push({ type: 'code', text, language: language ? language[1] : undefined });
+      }
+    } else if (name === 'blockquote') {
+      flush();
+      const text = collapse(element.text());
+      if (text) {
+        blocks.push({ type: 'quote', text });
+      }
+    } else if (name === 'table') {
+      flush();
+      element.find('tr').each((_, row) => {
+        const cells = $(row).children('th, td').toArray().map(cell => collapse($(cell).text())).filter(Boolean);
+        if (cells.length > 0) {
+          blocks.push({ type: 'paragraph', text: cells.join(' | ') });
+        }
+      });
+    } else if (CONTAINERS.has(name) || INLINE.has(name)) {
+      // Block-level children split the surrounding text into separate paragraphs
+      if (!INLINE.has(name)) {
+        flush();
+      }
+      node.children.forEach(walk);
+      if (!INLINE.has(name)) {
+        flush();
+      }
+    } else if (name !== 'img' && name !== 'svg' && name !== 'iframe' && name !== 'hr') {
+      flush();
+      node.children.forEach(walk);
+      flush();
+    }
+  };
+
+  root.toArray().forEach(walk);
+  flush();
+  return blocks;
+}
+
+export function extractLinks($: cheerio.Root, root: cheerio.Cheerio, baseUrl: string): ArticleLink[] {
+  const host = new URL(baseUrl).hostname;
+  const seen = new Set<string>();
+  const links: ArticleLink[] = [];
+
+  root.find('a[href]').each((_, anchor) => {
+    const url = resolve($(anchor).attr('href'), baseUrl);
+    if (!url || seen.has(url) || url.split('#')[0] === baseUrl.split('#')[0]) {
+      return;
+    }
+    seen.add(url);
+    links.push({ url, text: collapse($(anchor).text()) || url, external: new URL(url).hostname !== host });
+  });
+  return links;
+}
+
+export function extractImages($: cheerio.Root, root: cheerio.Cheerio, baseUrl: string): ArticleImage[] {
+  const seen = new Set<string>();
+  const images: ArticleImage[] = [];
+
+  root.find('img').each((_, img) => {
+    const element = $(img);
+    // Lazy-loading sites keep the real source in a data attribute
+    const src = resolve(element.attr('data-src') || element.attr('src'), baseUrl);
+    if (!src || seen.has(src)) {
+      return;
+    }
+    seen.add(src);
+    const alt = collapse(element.attr('alt') || '');
+    images.push(alt ? { src, alt } : { src });
+  });
+  return images;
+}
+
+export function blocksToMarkdown(blocks: ContentBlock[]): string {
+  return blocks.map(block => {
+    switch (block.type) {
+      case 'heading':
+        return `${'#'.repeat(block.level)} ${block.text}`;
+      case 'list':
+        return block.items.map((item, index) => `${block.ordered ? `${index + 1}.` : '-'} ${item}`).join('\n');
+      case 'code':
+        return '```' + (block.language || '') + '\n' + block.text + '\n```';
+      case 'quote':
+        return `> ${block.text}`;
+      default:
+        return block.text;
+    }
+  }).join('\n\n');
+}
+
+// Plain text with one block per paragraph, used for summaries and storage
+export function blocksToText(blocks: ContentBlock[]): string {
+  return blocks.map(block =>
+    block.type === 'list' ? block.items.map(item => `• ${item}`).join('\n') : block.text
+  ).join('\n\n');
+}
+
+export function extractDocument($: cheerio.Root, root: cheerio.Cheerio, baseUrl: string): StructuredDocument {
+  const blocks = extractBlocks($, root);
+  return {
+    blocks,
+    links: extractLinks($, root, baseUrl),
+    images: extractImages($, root, baseUrl),
+    markdown: blocksToMarkdown(blocks)
+  };
+}
@@ -0,0 +1,271 @@
+// lib/feeds.ts - RSS/Atom feed and sitemap ingestion
+
+import * as cheerio from 'cheerio';
+import { fetchText } from '@/lib/scraper';
+import { getStorage, Repository, WithId } from '@/lib/storage';
+import { normaliseUrl } from '@/lib/url';
+
+export type FeedKind = 'rss' | 'atom' | 'sitemap';
+
+export interface FeedDocument {
+  url: string;
+  kind: FeedKind;
+  title: string;
+  lastCheckedAt?: Date;
+  lastError?: string;
+  createdAt: Date;
+}
+
+export interface FeedEntryDocument {
+  feedId: string;
+  url: string;
+  title: string;
+  description?: string;
+  publishedAt?: Date;
+  // True until the entry is summarised or dismissed
+  isNew: boolean;
+  summaryId?: string;
+  discoveredAt: Date;
+}
+
+export interface ParsedFeed {
+  kind: FeedKind;
+  title: string;
+  entries: Omit<FeedEntryDocument, 'feedId' | 'isNew' | 'discoveredAt'>[];
+  // Child sitemaps listed by a sitemap index
+  sitemaps: string[];
+}
+
+export interface FeedSummary extends WithId<FeedDocument> {
+  entryCount: number;
+  newCount: number;
+}
+
+export interface CheckResult {
+  feed: WithId<FeedDocument>;
+  added: number;
+  total: number;
+}
+
+export const FEEDS_COLLECTION = 'feeds';
+export const FEED_ENTRIES_COLLECTION = 'feed_entries';
+
+// Sitemap indexes can list hundreds of sitemaps; only the first few are followed
+const MAX_CHILD_SITEMAPS = 5;
+const MAX_ENTRIES_PER_CHECK = 500;
+
+export function feedRepository(): Repository<FeedDocument> {
+  return getStorage().collection<FeedDocument>(FEEDS_COLLECTION);
+}
+
+export function feedEntryRepository(): Repository<FeedEntryDocument> {
+  return getStorage().collection<FeedEntryDocument>(FEED_ENTRIES_COLLECTION);
+}
+
+function parseDate(value?: string): Date | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+// Feed descriptions are often HTML; keep a short plain-text version
+function plainText(value: string, maxLength = 300): string {
+  const text = cheerio.load(`<div>${value}</div>`)('div').text().replace(/\s+/g, ' ').trim();
+  return text.length > maxLength ? text.slice(0, maxLength - 1).trimEnd() + '…' : text;
+}
+
+// Sitemaps carry no titles, so derive one from the last path segment
+function titleFromUrl(url: string): string {
+  try {
+    const segment = new URL(url).pathname.split('/').filter(Boolean).pop() || url;
+    const words = decodeURIComponent(segment).replace(/\.[a-z]+$/i, '').replace(/[-_]+/g, ' ').trim();
+    return words ? words.charAt(0).toUpperCase() + words.slice(1) : url;
+  } catch {
+    return url;
+  }
+}
+
+function resolveLink(link: string, base: string): string {
+  try {
+    return new URL(link.trim(), base).toString();
+  } catch {
+    return link.trim();
+  }
+}
+
+export function parseFeed(xml: string, feedUrl: string): ParsedFeed {
+  const $ = cheerio.load(xml, { xmlMode: true });
+
+  // Sitemaps and sitemap indexes
+  if ($('urlset').length > 0 || $('sitemapindex').length > 0) {
+    return {
+      kind: 'sitemap',
+      title: titleFromUrl(feedUrl),
+      entries: $('urlset > url').toArray().map(node => {
+        const url = resolveLink($(node).children('loc').text(), feedUrl);
+        return {
+          url,
+          title: titleFromUrl(url),
+          publishedAt: parseDate($(node).children('lastmod').text())
+        };
+      }),
+      sitemaps: $('sitemapindex > sitemap > loc').toArray().map(node => resolveLink($(node).text(), feedUrl))
+    };
+  }
+
+  // Atom
+  if ($('feed').length > 0) {
+    return {
+      kind: 'atom',
+      title: $('feed > title').first().text().trim() || titleFromUrl(feedUrl),
+      entries: $('feed > entry').toArray().map(node => {
+        const entry = $(node);
+        const link = entry.children('link[rel="alternate"]').attr('href') || entry.children('link').first().attr('href') || '';
+        return {
+          url: resolveLink(link, feedUrl),
+          title: entry.children('title').text().trim(),
+          description: plainText(entry.children('summary').text() || entry.children('content').text()) || undefined,
+          publishedAt: parseDate(entry.children('published').text() || entry.children('updated').text())
+        };
+      }),
+      sitemaps: []
+    };
+  }
+
+  // RSS 2.0 and RSS 1.0 (RDF)
+  if ($('rss').length > 0 || $('rdf\\:RDF').length > 0 || $('channel').length > 0) {
+    return {
+      kind: 'rss',
+      title: $('channel > title').first().text().trim() || titleFromUrl(feedUrl),
+      entries: $('item').toArray().map(node => {
+        const item = $(node);
+        return {
+          url: resolveLink(item.children('link').text() || item.children('guid').text(), feedUrl),
+          title: item.children('title').text().trim(),
+          description: plainText(item.children('description').text()) || undefined,
+          publishedAt: parseDate(item.children('pubDate').text() || item.children('dc\\:date').text())
+        };
+      }),
+      sitemaps: []
+    };
+  }
+
+  throw new Error('Not an RSS/Atom feed or sitemap');
+}
+
+async function fetchFeed(url: string): Promise<ParsedFeed> {
+  const parsed = parseFeed(await fetchText(url), url);
+
+  for (const sitemap of parsed.sitemaps.slice(0, MAX_CHILD_SITEMAPS)) {
+    try {
+      const child = parseFeed(await fetchText(sitemap), sitemap);
+      parsed.entries.push(...child.entries);
+    } catch (error: any) {
+      console.warn(`Skipping sitemap ${sitemap}:`, error.message);
+    }
+  }
+
+  parsed.entries = parsed.entries.filter(entry => /^https?:\/\//i.test(entry.url));
+  return parsed;
+}
+
+// Fetches the feed and stores entries not seen before as new
+export async function checkFeed(feed: WithId<FeedDocument>, prefetched?: ParsedFeed): Promise<CheckResult> {
+  const entries = feedEntryRepository();
+  const now = new Date();
+
+  try {
+    const parsed = prefetched || await fetchFeed(feed.url);
+    const known = new Set((await entries.findMany({ feedId: feed.id })).map(entry => normaliseUrl(entry.url)));
+    let added = 0;
+
+    for (const entry of parsed.entries.slice(0, MAX_ENTRIES_PER_CHECK)) {
+      const key = normaliseUrl(entry.url);
+      if (known.has(key)) {
+        continue;
+      }
+      known.add(key);
+      await entries.insert({ ...entry, feedId: feed.id, isNew: true, discoveredAt: now });
+      added++;
+    }
+
+    const updated = await feedRepository().updateById(feed.id, {
+      kind: parsed.kind,
+      title: parsed.title,
+      lastCheckedAt: now,
+      lastError: undefined
+    });
+    console.log(`Checked feed ${feed.url}: ${added} new of ${parsed.entries.length} entries`);
+    return { feed: updated || feed, added, total: parsed.entries.length };
+  } catch (error: any) {
+    await feedRepository().updateById(feed.id, { lastCheckedAt: now, lastError: error.message });
+    throw error;
+  }
+}
+
+export async function registerFeed(url: string): Promise<CheckResult> {
+  const existing = (await feedRepository().findMany()).find(feed => normaliseUrl(feed.url) === normaliseUrl(url));
+  if (existing) {
+    return checkFeed(existing);
+  }
+
+  // Fetched before saving so a URL that is not a feed is never registered
+  const parsed = await fetchFeed(url);
+  const feed = await feedRepository().insert({ url, kind: parsed.kind, title: parsed.title, createdAt: new Date() });
+  return checkFeed(feed, parsed);
+}
+
+export async function getFeed(id: string): Promise<WithId<FeedDocument> | null> {
+  return feedRepository().findById(id);
+}
+
+export async function listFeeds(): Promise<FeedSummary[]> {
+  const [feeds, entries] = await Promise.all([feedRepository().findMany(), feedEntryRepository().findMany()]);
+  return feeds.map(feed => {
+    const own = entries.filter(entry => entry.feedId === feed.id);
+    return { ...feed, entryCount: own.length, newCount: own.filter(entry => entry.isNew).length };
+  });
+}
+
+export async function listFeedEntries(
+  options: { feedId?: string; onlyNew?: boolean; limit?: number } = {}
+): Promise<WithId<FeedEntryDocument>[]> {
+  const filter: Partial<FeedEntryDocument> = {};
+  if (options.feedId) {
+    filter.feedId = options.feedId;
+  }
+  if (options.onlyNew) {
+    filter.isNew = true;
+  }
+
+  const items = await feedEntryRepository().findMany(filter);
+  // Newest first; entries without a date (some sitemaps) go last in discovery order
+  items.sort((a, b) =>
+    (b.publishedAt ? new Date(b.publishedAt).getTime() : 0) - (a.publishedAt ? new Date(a.publishedAt).getTime() : 0)
+  );
+  return options.limit ? items.slice(0, options.limit) : items;
+}
+
+export async function deleteFeed(id: string): Promise<boolean> {
+  const entries = feedEntryRepository();
+  for (const entry of await entries.findMany({ feedId: id })) {
+    await entries.deleteById(entry.id);
+  }
+  return feedRepository().deleteById(id);
+}
+
+export async function markEntriesSeen(ids: string[]): Promise<void> {
+  for (const id of ids) {
+    await feedEntryRepository().updateById(id, { isNew: false });
+  }
+}
+
+// Called after a URL is summarised so its feed entries stop showing as new
+export async function markUrlSummarised(url: string, summaryId: string): Promise<void> {
+  const entries = feedEntryRepository();
+  for (const entry of await entries.findMany({ url })) {
+    await entries.updateById(entry.id, { isNew: false, summaryId });
+  }
+}
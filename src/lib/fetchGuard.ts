@@ -0,0 +1,337 @@
+// lib/fetchGuard.ts - Limits on what the server fetches for users: no private addresses,
+// configured domains only, bounded response size and expected content types
+
+import axios, { LookupAddress } from 'axios';
+import dns from 'dns';
+import net from 'net';
+import type { IncomingHttpHeaders } from 'http';
+import type { Readable } from 'stream';
+
+export type FetchErrorCode =
+  | 'INVALID_URL'
+  | 'UNSUPPORTED_PROTOCOL'
+  | 'PRIVATE_ADDRESS'
+  | 'DOMAIN_DENIED'
+  | 'DOMAIN_NOT_ALLOWED'
+  | 'TOO_MANY_REDIRECTS'
+  | 'RESPONSE_TOO_LARGE'
+  | 'UNSUPPORTED_CONTENT_TYPE'
+  | 'ROBOTS_DISALLOWED';
+
+// HTTP status the API answers with for each refusal
+const ERROR_STATUS: Record<FetchErrorCode, number> = {
+  INVALID_URL: 400,
+  UNSUPPORTED_PROTOCOL: 400,
+  PRIVATE_ADDRESS: 403,
+  DOMAIN_DENIED: 403,
+  DOMAIN_NOT_ALLOWED: 403,
+  TOO_MANY_REDIRECTS: 502,
+  RESPONSE_TOO_LARGE: 413,
+  UNSUPPORTED_CONTENT_TYPE: 415,
+  ROBOTS_DISALLOWED: 403
+};
+
+// Thrown when a fetch is refused by the policy; never retried
+export class FetchPolicyError extends Error {
+  public status: number;
+
+  constructor(public code: FetchErrorCode, message: string) {
+    super(message);
+    this.name = 'FetchPolicyError';
+    this.status = fetchErrorStatus(code);
+  }
+}
+
+export function fetchErrorStatus(code: FetchErrorCode): number {
+  return ERROR_STATUS[code];
+}
+
+export interface FetchPolicy {
+  maxBytes: number;
+  maxRedirects: number;
+  // MIME types accepted from servers; responses without a Content-Type are let through
+  allowedTypes: string[];
+  // When set, only these domains (and their subdomains) can be fetched
+  allowDomains: string[];
+  denyDomains: string[];
+  // Lets local development fetch localhost and LAN addresses
+  allowPrivate: boolean;
+}
+
+export const DEFAULT_ALLOWED_TYPES = [
+  'text/html',
+  'application/xhtml+xml',
+  'text/plain',
+  'text/markdown',
+  'text/x-markdown',
+  'application/pdf',
+  'application/xml',
+  'text/xml',
+  'application/rss+xml',
+  'application/atom+xml'
+];
+
+function list(value: string | undefined, fallback: string[] = []): string[] {
+  if (value === undefined) {
+    return fallback;
+  }
+  return value.split(',').map(item => item.trim().toLowerCase().replace(/^www\./, '')).filter(Boolean);
+}
+
+export function getFetchPolicy(): FetchPolicy {
+  return {
+    maxBytes: Number(process.env.FETCH_MAX_BYTES) || 15 * 1024 * 1024,
+    maxRedirects: 5,
+    allowedTypes: list(process.env.FETCH_ALLOWED_TYPES, DEFAULT_ALLOWED_TYPES),
+    allowDomains: list(process.env.FETCH_ALLOW_DOMAINS),
+    denyDomains: list(process.env.FETCH_DENY_DOMAINS),
+    allowPrivate: process.env.FETCH_ALLOW_PRIVATE === 'true'
+  };
+}
+
+// [first address, prefix length] of IPv4 ranges that are not on the public internet
+const PRIVATE_V4: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+];
+
+function v4ToNumber(ip: string): number {
+  return ip.split('.').reduce((total, part) => total * 256 + Number(part), 0);
+}
+
+function isPrivateV4(ip: string): boolean {
+  const value = v4ToNumber(ip);
+  return PRIVATE_V4.some(([base, bits]) => {
+    const size = Math.pow(2, 32 - bits);
+    const start = v4ToNumber(base);
+    return value >= start && value < start + size;
+  });
+}
+
+// Expands an IPv6 address into its eight 16-bit groups
+function v6Groups(ip: string): number[] {
+  let address = ip.split('%')[0];
+  // A trailing dotted IPv4 part (::ffff:1.2.3.4) becomes two groups
+  const v4 = /(\d+\.\d+\.\d+\.\d+)$/.exec(address);
+  if (v4) {
+    const value = v4ToNumber(v4[1]);
+    address = address.slice(0, -v4[1].length) + `${Math.floor(value / 65536).toString(16)}:${(value % 65536).toString(16)}`;
+  }
+  const [head, tail] = address.split('::');
+  const left = head ? head.split(':') : [];
+  const right = tail !== undefined && tail ? tail.split(':') : [];
+  const missing = 8 - left.length - right.length;
+  const groups = left.concat(tail !== undefined ? new Array(missing).fill('0') : [], right);
+  return groups.map(group => parseInt(group, 16) || 0);
+}
+
+function embeddedV4(high: number, low: number): string {
+  return [high >> 8, high & 255, low >> 8, low & 255].join('.');
+}
+
+function isPrivateV6(ip: string): boolean {
+  const groups = v6Groups(ip);
+  const zeroPrefix = (count: number) => groups.slice(0, count).every(group => group === 0);
+
+  // :: and ::1
+  if (zeroPrefix(7) && groups[7] <= 1) {
+    return true;
+  }
+  // IPv4-mapped (::ffff:a.b.c.d), IPv4-compatible (::a.b.c.d) and NAT64 (64:ff9b::a.b.c.d)
+  if ((zeroPrefix(5) && groups[5] === 0xffff) || zeroPrefix(6) ||
+    (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0))) {
+    return isPrivateV4(embeddedV4(groups[6], groups[7]));
+  }
+  // 6to4 carries an IPv4 address in its second and third groups
+  if (groups[0] === 0x2002) {
+    return isPrivateV4(embeddedV4(groups[1], groups[2]));
+  }
+  return (groups[0] & 0xfe00) === 0xfc00 // unique local
+    || (groups[0] & 0xffc0) === 0xfe80 // link-local
+    || (groups[0] & 0xff00) === 0xff00 // multicast
+    || groups[0] === 0x2001 && groups[1] === 0x0db8; // documentation
+}
+
+// Loopback, private, link-local (cloud metadata), carrier-grade NAT, multicast and reserved ranges
+export function isPrivateAddress(ip: string): boolean {
+  const version = net.isIP(ip);
+  if (version === 4) {
+    return isPrivateV4(ip);
+  }
+  if (version === 6) {
+    return isPrivateV6(ip);
+  }
+  return true;
+}
+
+function matchesDomain(host: string, domains: string[]): boolean {
+  return domains.some(domain => host === domain || host.endsWith('.' + domain));
+}
+
+// Checks everything that can be known from the URL alone. Host names are checked again once
+// resolved (see guardedLookup), since a public-looking name can point at a private address.
+export function checkUrl(url: string, policy: FetchPolicy = getFetchPolicy()): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new FetchPolicyError('INVALID_URL', 'Invalid URL provided');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new FetchPolicyError('UNSUPPORTED_PROTOCOL', `Only http and https URLs can be fetched (got ${parsed.protocol})`);
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  const bareHost = host.replace(/^www\./, '');
+  if (matchesDomain(bareHost, policy.denyDomains)) {
+    throw new FetchPolicyError('DOMAIN_DENIED', `Fetching from ${host} is not permitted`);
+  }
+  if (policy.allowDomains.length > 0 && !matchesDomain(bareHost, policy.allowDomains)) {
+    throw new FetchPolicyError('DOMAIN_NOT_ALLOWED', `${host} is not on the list of allowed domains`);
+  }
+  if (!policy.allowPrivate && (host === 'localhost' || host.endsWith('.localhost') || (net.isIP(host) && isPrivateAddress(host)))) {
+    throw new FetchPolicyError('PRIVATE_ADDRESS', `${host} is a private or local address`);
+  }
+  return parsed;
+}
+
+// Resolves a host name and refuses it if any of its addresses is private
+export async function resolvePublic(hostname: string, policy: FetchPolicy = getFetchPolicy()): Promise<dns.LookupAddress[]> {
+  const addresses = await dns.promises.lookup(hostname, { all: true });
+  if (!policy.allowPrivate) {
+    const blocked = addresses.find(entry => isPrivateAddress(entry.address));
+    if (blocked) {
+      throw new FetchPolicyError('PRIVATE_ADDRESS', `${hostname} resolves to a private or local address (${blocked.address})`);
+    }
+  }
+  return addresses;
+}
+
+// checkUrl plus the resolved-address check, for clients that can't use guardedLookup
+export async function checkFetchable(url: string, policy: FetchPolicy = getFetchPolicy()): Promise<URL> {
+  const parsed = checkUrl(url, policy);
+  await resolvePublic(parsed.hostname.replace(/^\[|\]$/g, ''), policy);
+  return parsed;
+}
+
+// DNS lookup for the HTTP client. The connection is made to the address checked here, so a
+// name can't resolve to a public address for the check and a private one for the request.
+function guardedLookup(policy: FetchPolicy) {
+  // axios passes on whichever address (or all of them) the connection asked for
+  return (hostname: string, _options: object, callback: (error: Error | null, addresses: LookupAddress[]) => void) => {
+    resolvePublic(hostname, policy).then(
+      addresses => callback(null, addresses.map(entry => ({ address: entry.address, family: entry.family === 6 ? 6 : 4 }))),
+      error => callback(error, [])
+    );
+  };
+}
+
+export function checkContentType(contentType: string | undefined, policy: FetchPolicy = getFetchPolicy()): void {
+  const type = (contentType || '').split(';')[0].trim().toLowerCase();
+  if (type && policy.allowedTypes.indexOf(type) === -1) {
+    throw new FetchPolicyError('UNSUPPORTED_CONTENT_TYPE', `Content of type ${type} can't be summarised`);
+  }
+}
+
+// The policy error behind an HTTP client error, if the request was refused by the policy
+export function asPolicyError(error: any): FetchPolicyError | null {
+  if (error instanceof FetchPolicyError) {
+    return error;
+  }
+  return error?.cause instanceof FetchPolicyError ? error.cause : null;
+}
+
+function readBody(stream: Readable, limit: number, url: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        stream.destroy();
+        reject(new FetchPolicyError('RESPONSE_TOO_LARGE', `${url} is larger than the ${Math.round(limit / 1024 / 1024)} MB limit`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+}
+
+export interface GuardedResponse {
+  status: number;
+  headers: IncomingHttpHeaders;
+  body: Buffer;
+  // Address the body came from, after redirects
+  url: string;
+}
+
+export interface GuardedRequest {
+  timeout?: number;
+  headers?: Record<string, string | undefined>;
+}
+
+// GET that applies the policy to the URL and every redirect hop, checks resolved addresses at
+// connect time, refuses unexpected content types and stops reading at the size limit.
+// 4xx/5xx responses reject like axios does, with `error.response.status` set.
+export async function guardedGet(
+  url: string,
+  request: GuardedRequest = {},
+  policy: FetchPolicy = getFetchPolicy()
+): Promise<GuardedResponse> {
+  let current = url;
+
+  for (let hop = 0; hop <= policy.maxRedirects; hop++) {
+    checkUrl(current, policy);
+    let response;
+    try {
+      response = await axios.get<Readable>(current, {
+        timeout: request.timeout,
+        headers: request.headers,
+        maxRedirects: 0,
+        responseType: 'stream',
+        lookup: guardedLookup(policy),
+        validateStatus: (status: number) => status < 400
+      });
+    } catch (error: any) {
+      // Error responses are streams too; drop the body so the socket is released
+      error?.response?.data?.destroy?.();
+      throw asPolicyError(error) || error;
+    }
+
+    const location = response.headers['location'];
+    if (response.status >= 300 && response.status < 400 && response.status !== 304 && location) {
+      response.data.destroy();
+      current = new URL(String(location), current).toString();
+      continue;
+    }
+
+    try {
+      if (response.status !== 304) {
+        checkContentType(response.headers['content-type'], policy);
+      }
+    } catch (error) {
+      response.data.destroy();
+      throw error;
+    }
+
+    // The limit is applied to the decompressed body, so compressed bombs are caught too
+    const body = await readBody(response.data, policy.maxBytes, current);
+    return { status: response.status, headers: response.headers as IncomingHttpHeaders, body, url: current };
+  }
+
+  throw new FetchPolicyError('TOO_MANY_REDIRECTS', `Stopped after ${policy.maxRedirects} redirects`);
+}
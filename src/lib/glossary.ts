@@ -0,0 +1,308 @@
+// lib/glossary.ts - Editable, per-language translation glossary backed by the storage driver
+
+import { getStorage, Repository, WithId } from '@/lib/storage';
+import { builtinEntries, compileGlossary, CompiledGlossary, normaliseTerm, TranslationMap } from '@/lib/dictionaries';
+import { isLanguageCode, LANGUAGES, LanguageCode } from '@/lib/languages';
+
+export interface GlossaryEntry {
+  language: LanguageCode;
+  // Lower-case English word or phrase
+  source: string;
+  // Translation; an empty string drops the term from the output
+  target: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type GlossaryFormat = 'csv' | 'json';
+
+export interface GlossaryInput {
+  language: string;
+  source: string;
+  target: string;
+}
+
+export interface ImportResult {
+  added: number;
+  updated: number;
+  skipped: number;
+  errors: string[];
+}
+
+// Thrown for bad input so routes can answer 400/404 instead of 500
+export class GlossaryError extends Error {
+  constructor(message: string, public status: 400 | 404 | 409 = 400) {
+    super(message);
+    this.name = 'GlossaryError';
+  }
+}
+
+export const GLOSSARY_COLLECTION = 'glossary';
+
+export function glossaryRepository(): Repository<GlossaryEntry> {
+  return getStorage().collection<GlossaryEntry>(GLOSSARY_COLLECTION);
+}
+
+let seeding: Promise<void> | null = null;
+const compiledCache: Partial<Record<LanguageCode, CompiledGlossary>> = {};
+
+function invalidate(language?: LanguageCode): void {
+  if (language) {
+    delete compiledCache[language];
+  } else {
+    (Object.keys(compiledCache) as LanguageCode[]).forEach(code => delete compiledCache[code]);
+  }
+}
+
+// Copies the built-in dictionaries into an empty glossary so they can be edited
+export function ensureSeeded(): Promise<void> {
+  if (!seeding) {
+    seeding = (async () => {
+      const repository = glossaryRepository();
+      const existing = await repository.query({ limit: 1 });
+      if (existing.total > 0) {
+        return;
+      }
+
+      const now = new Date();
+      for (const language of Object.keys(LANGUAGES) as LanguageCode[]) {
+        const entries = builtinEntries(language);
+        for (const source of Object.keys(entries)) {
+          await repository.insert({ language, source: normaliseTerm(source), target: entries[source], createdAt: now, updatedAt: now });
+        }
+      }
+      console.log('Seeded glossary from built-in dictionaries');
+    })().catch(error => {
+      seeding = null;
+      throw error;
+    });
+  }
+  return seeding;
+}
+
+function validate(input: GlossaryInput): { language: LanguageCode; source: string; target: string } {
+  if (!isLanguageCode(input.language)) {
+    throw new GlossaryError(`Unsupported language "${input.language}"`);
+  }
+  const source = normaliseTerm(String(input.source || ''));
+  if (!source) {
+    throw new GlossaryError('"source" must not be empty');
+  }
+  if (typeof input.target !== 'string') {
+    throw new GlossaryError('"target" must be a string');
+  }
+  return { language: input.language, source, target: input.target.trim() };
+}
+
+export async function listGlossary(language?: LanguageCode): Promise<WithId<GlossaryEntry>[]> {
+  await ensureSeeded();
+  const { items } = await glossaryRepository().query({
+    filter: language ? { language } : {},
+    sort: { field: 'source', direction: 'asc' }
+  });
+  return items;
+}
+
+export async function addGlossaryEntry(input: GlossaryInput): Promise<WithId<GlossaryEntry>> {
+  await ensureSeeded();
+  const entry = validate(input);
+  const repository = glossaryRepository();
+
+  if (await repository.findOne({ language: entry.language, source: entry.source })) {
+    throw new GlossaryError(`"${entry.source}" already exists for ${entry.language}`, 409);
+  }
+
+  const now = new Date();
+  const saved = await repository.insert({ ...entry, createdAt: now, updatedAt: now });
+  invalidate(entry.language);
+  return saved;
+}
+
+export async function updateGlossaryEntry(id: string, input: Partial<GlossaryInput>): Promise<WithId<GlossaryEntry>> {
+  const repository = glossaryRepository();
+  const current = await repository.findById(id);
+  if (!current) {
+    throw new GlossaryError('Glossary entry not found', 404);
+  }
+
+  const entry = validate({
+    language: input.language ?? current.language,
+    source: input.source ?? current.source,
+    target: input.target ?? current.target
+  });
+
+  const clash = await repository.findOne({ language: entry.language, source: entry.source });
+  if (clash && clash.id !== id) {
+    throw new GlossaryError(`"${entry.source}" already exists for ${entry.language}`, 409);
+  }
+
+  const updated = await repository.updateById(id, { ...entry, updatedAt: new Date() });
+  if (!updated) {
+    throw new GlossaryError('Glossary entry not found', 404);
+  }
+  invalidate(current.language);
+  invalidate(entry.language);
+  return updated;
+}
+
+export async function deleteGlossaryEntry(id: string): Promise<void> {
+  const repository = glossaryRepository();
+  const current = await repository.findById(id);
+  if (!current || !(await repository.deleteById(id))) {
+    throw new GlossaryError('Glossary entry not found', 404);
+  }
+  invalidate(current.language);
+}
+
+// Compiled glossary for the dictionary translator, cached until the next edit
+export async function loadGlossary(language: LanguageCode): Promise<CompiledGlossary> {
+  if (!compiledCache[language]) {
+    const entries: TranslationMap = {};
+    (await listGlossary(language)).forEach(entry => {
+      entries[entry.source] = entry.target;
+    });
+    compiledCache[language] = compileGlossary(entries);
+  }
+  return compiledCache[language]!;
+}
+
+// --- Import / export -------------------------------------------------------
+
+const CSV_HEADER = ['language', 'source', 'target'];
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes and embedded newlines
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+export async function exportGlossary(format: GlossaryFormat, language?: LanguageCode): Promise<string> {
+  const entries = await listGlossary(language);
+
+  if (format === 'json') {
+    return JSON.stringify(
+      entries.map(({ language, source, target }) => ({ language, source, target })),
+      null,
+      2
+    );
+  }
+
+  const lines = [CSV_HEADER.join(',')].concat(
+    entries.map(entry => [entry.language, entry.source, entry.target].map(csvField).join(','))
+  );
+  return lines.join('\n') + '\n';
+}
+
+function parseImport(format: GlossaryFormat, data: string): GlossaryInput[] {
+  if (format === 'json') {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      throw new GlossaryError('Import data is not valid JSON');
+    }
+    if (!Array.isArray(parsed)) {
+      throw new GlossaryError('JSON import must be an array of { language, source, target } objects');
+    }
+    return parsed as GlossaryInput[];
+  }
+
+  const rows = parseCsv(data);
+  const header = rows[0]?.map(cell => cell.trim().toLowerCase()) || [];
+  const hasHeader = CSV_HEADER.every(column => header.indexOf(column) !== -1);
+  const columns = hasHeader ? CSV_HEADER.map(column => header.indexOf(column)) : [0, 1, 2];
+
+  return (hasHeader ? rows.slice(1) : rows).map(cells => ({
+    language: (cells[columns[0]] || '').trim(),
+    source: cells[columns[1]] || '',
+    target: cells[columns[2]] ?? ''
+  }));
+}
+
+// Adds new entries and overwrites the target of existing ones; `replace` first clears
+// every language that appears in the import.
+export async function importGlossary(
+  format: GlossaryFormat,
+  data: string,
+  mode: 'merge' | 'replace' = 'merge'
+): Promise<ImportResult> {
+  await ensureSeeded();
+  const rows = parseImport(format, data);
+  const repository = glossaryRepository();
+  const result: ImportResult = { added: 0, updated: 0, skipped: 0, errors: [] };
+
+  const valid: { language: LanguageCode; source: string; target: string }[] = [];
+  rows.forEach((row, index) => {
+    try {
+      valid.push(validate(row));
+    } catch (error: any) {
+      result.skipped++;
+      result.errors.push(`Row ${index + 1}: ${error.message}`);
+    }
+  });
+
+  if (mode === 'replace') {
+    const languages = valid.map(entry => entry.language).filter((code, i, all) => all.indexOf(code) === i);
+    for (const language of languages) {
+      for (const entry of await repository.findMany({ language })) {
+        await repository.deleteById(entry.id);
+      }
+    }
+  }
+
+  const now = new Date();
+  for (const entry of valid) {
+    const existing = await repository.findOne({ language: entry.language, source: entry.source });
+    if (existing) {
+      await repository.updateById(existing.id, { target: entry.target, updatedAt: now });
+      result.updated++;
+    } else {
+      await repository.insert({ ...entry, createdAt: now, updatedAt: now });
+      result.added++;
+    }
+  }
+
+  invalidate();
+  return result;
+}
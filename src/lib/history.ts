@@ -0,0 +1,97 @@
+// lib/history.ts - Read back and delete stored summaries
+
+import { blogRepository, summaryRepository, getTranslations, BlogDocument, SummaryDocument } from '@/lib/mongodb';
+import type { WithId } from '@/lib/storage';
+import { getDomain } from '@/lib/url';
+
+export interface HistoryQuery {
+  page?: number;
+  pageSize?: number;
+  url?: string;
+  domain?: string;
+  // Exact author name, as shown on the summary
+  author?: string;
+  from?: Date;
+  to?: Date;
+  // Which date `from`/`to` apply to; summaries without a publish date are left out by publishedAt ranges
+  dateField?: HistoryDateField;
+  // Newest first by this date
+  sort?: HistoryDateField;
+}
+
+export type HistoryDateField = 'createdAt' | 'publishedAt';
+
+export function isHistoryDateField(value: unknown): value is HistoryDateField {
+  return value === 'createdAt' || value === 'publishedAt';
+}
+
+export interface HistoryPage {
+  items: WithId<SummaryDocument>[];
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+export interface SummaryDetail extends WithId<SummaryDocument> {
+  blog: WithId<BlogDocument> | null;
+}
+
+export const DEFAULT_PAGE_SIZE = 10;
+export const MAX_PAGE_SIZE = 100;
+
+// Older documents only have a single Urdu `translation`; expose everything as `translations`
+function withTranslations(summary: WithId<SummaryDocument>): WithId<SummaryDocument> {
+  return { ...summary, translations: getTranslations(summary) };
+}
+
+export async function listSummaries(query: HistoryQuery = {}): Promise<HistoryPage> {
+  const page = Math.max(1, Math.floor(query.page || 1));
+  const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(query.pageSize || DEFAULT_PAGE_SIZE)));
+
+  const filter: Partial<SummaryDocument> = {};
+  if (query.url) {
+    filter.url = query.url;
+  }
+  if (query.domain) {
+    filter.domain = getDomain(`http://${query.domain}`) || query.domain;
+  }
+  if (query.author) {
+    filter.author = query.author;
+  }
+  const dateField = query.dateField || 'createdAt';
+  const sortField = query.sort || 'createdAt';
+
+  const { items, total } = await summaryRepository().query({
+    filter,
+    range: query.from || query.to ? { field: dateField, from: query.from, to: query.to } : undefined,
+    sort: { field: sortField, direction: 'desc' },
+    skip: (page - 1) * pageSize,
+    limit: pageSize
+  });
+
+  return {
+    items: items.map(withTranslations),
+    page,
+    pageSize,
+    total,
+    totalPages: Math.ceil(total / pageSize)
+  };
+}
+
+export async function getSummaryDetail(id: string): Promise<SummaryDetail | null> {
+  const summary = await summaryRepository().findById(id);
+  if (!summary) {
+    return null;
+  }
+
+  const blog = summary.blogId
+    ? await blogRepository().findById(summary.blogId)
+    : await blogRepository().findOne({ url: summary.url });
+
+  return { ...withTranslations(summary), blog };
+}
+
+export async function deleteSummary(id: string): Promise<boolean> {
+  return summaryRepository().deleteById(id);
+}
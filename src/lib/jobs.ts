@@ -0,0 +1,227 @@
+// lib/jobs.ts - Batch summarisation jobs with bounded concurrency
+
+import { getStorage, Repository, WithId } from '@/lib/storage';
+import { runPipeline, PipelineOptions } from '@/lib/pipeline';
+import { normaliseUrl } from '@/lib/url';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+export type JobItemStatus = 'pending' | 'running' | 'succeeded' | 'failed';
+
+export interface JobItem {
+  url: string;
+  status: JobItemStatus;
+  attempts: number;
+  title?: string;
+  summary?: string;
+  // Stored SummaryDocument, viewable through /api/summaries/:id
+  summaryId?: string;
+  error?: string;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
+export interface JobDocument {
+  status: JobStatus;
+  options: PipelineOptions;
+  items: JobItem[];
+  createdAt: Date;
+  updatedAt: Date;
+  finishedAt?: Date;
+}
+
+export interface JobProgress {
+  total: number;
+  pending: number;
+  running: number;
+  succeeded: number;
+  failed: number;
+}
+
+export const JOBS_COLLECTION = 'jobs';
+export const MAX_BATCH_SIZE = Number(process.env.BATCH_MAX_URLS) || 200;
+export const BATCH_CONCURRENCY = Math.max(1, Number(process.env.BATCH_CONCURRENCY) || 3);
+
+export function jobRepository(): Repository<JobDocument> {
+  return getStorage().collection<JobDocument>(JOBS_COLLECTION);
+}
+
+// Jobs being processed by this process. They are the source of truth while running and
+// are written to storage after every change, one write at a time per job.
+const activeJobs = new Map<string, WithId<JobDocument>>();
+const pendingWrites = new Map<string, Promise<unknown>>();
+
+function persist(job: WithId<JobDocument>): Promise<unknown> {
+  job.updatedAt = new Date();
+  const { id, ...fields } = job;
+  const snapshot = JSON.parse(JSON.stringify(fields), (key, value) =>
+    /At$/.test(key) && typeof value === 'string' ? new Date(value) : value
+  );
+  const write = (pendingWrites.get(id) || Promise.resolve())
+    .then(() => jobRepository().updateById(id, snapshot))
+    .catch(error => console.error(`Error saving job ${id}:`, error));
+  pendingWrites.set(id, write);
+  return write;
+}
+
+// Pulls http(s) URLs out of pasted text, a text/CSV upload or a JSON array.
+// Duplicates (after normalisation) are dropped, keeping the first occurrence.
+export function parseUrlList(input: string | unknown[]): string[] {
+  const candidates = Array.isArray(input)
+    ? input.map(value => String(value))
+    : input.match(/https?:\/\/[^\s,;"'<>]+/gi) || [];
+
+  const seen = new Set<string>();
+  const urls: string[] = [];
+  candidates.forEach(candidate => {
+    const url = candidate.trim();
+    if (!/^https?:\/\//i.test(url)) {
+      return;
+    }
+    const key = normaliseUrl(url);
+    if (!seen.has(key)) {
+      seen.add(key);
+      urls.push(url);
+    }
+  });
+  return urls;
+}
+
+export function getJobProgress(job: JobDocument): JobProgress {
+  const progress: JobProgress = { total: job.items.length, pending: 0, running: 0, succeeded: 0, failed: 0 };
+  job.items.forEach(item => {
+    progress[item.status]++;
+  });
+  return progress;
+}
+
+async function processItem(job: WithId<JobDocument>, item: JobItem): Promise<void> {
+  item.status = 'running';
+  item.attempts++;
+  item.startedAt = new Date();
+  item.error = undefined;
+  persist(job);
+
+  const result = await runPipeline(item.url, job.options);
+
+  item.finishedAt = new Date();
+  if (result.success) {
+    item.status = 'succeeded';
+    item.title = result.metadata?.title;
+    item.summary = result.summary;
+    item.summaryId = result.summaryId;
+  } else {
+    item.status = 'failed';
+    item.error = result.error || 'Unknown error';
+  }
+  persist(job);
+}
+
+// Works through the job's pending items with at most BATCH_CONCURRENCY in flight
+async function processJob(job: WithId<JobDocument>): Promise<void> {
+  job.status = 'running';
+  job.finishedAt = undefined;
+  persist(job);
+
+  const worker = async () => {
+    let item = job.items.find(candidate => candidate.status === 'pending');
+    while (item) {
+      await processItem(job, item);
+      item = job.items.find(candidate => candidate.status === 'pending');
+    }
+  };
+
+  // Loop in case a retry re-queued items just as the last workers were finishing
+  while (job.items.some(item => item.status === 'pending')) {
+    const workers: Promise<void>[] = [];
+    for (let i = 0; i < BATCH_CONCURRENCY; i++) {
+      workers.push(worker());
+    }
+    await Promise.all(workers);
+  }
+
+  const progress = getJobProgress(job);
+  job.status = progress.succeeded === 0 && progress.failed > 0 ? 'failed' : 'completed';
+  job.finishedAt = new Date();
+  activeJobs.delete(job.id);
+  await persist(job);
+  console.log(`Job ${job.id} finished: ${progress.succeeded} succeeded, ${progress.failed} failed`);
+}
+
+function start(job: WithId<JobDocument>): void {
+  activeJobs.set(job.id, job);
+  processJob(job).catch(error => {
+    console.error(`Job ${job.id} crashed:`, error);
+    job.status = 'failed';
+    activeJobs.delete(job.id);
+    persist(job);
+  });
+}
+
+export async function createJob(urls: string[], options: PipelineOptions = {}): Promise<WithId<JobDocument>> {
+  const now = new Date();
+  const job = await jobRepository().insert({
+    status: 'queued',
+    options,
+    items: urls.map(url => ({ url, status: 'pending', attempts: 0 })),
+    createdAt: now,
+    updatedAt: now
+  });
+
+  start(job);
+  return job;
+}
+
+export async function getJob(id: string): Promise<WithId<JobDocument> | null> {
+  const active = activeJobs.get(id);
+  if (active) {
+    return active;
+  }
+
+  const job = await jobRepository().findById(id);
+  // Another read may have resumed the job while this one waited for storage
+  const resumed = activeJobs.get(id);
+  if (resumed) {
+    return resumed;
+  }
+  if (job && (job.status === 'queued' || job.status === 'running')) {
+    // The process that ran this job stopped before it finished; pick it up again
+    job.items.forEach(item => {
+      if (item.status === 'running') {
+        item.status = 'pending';
+      }
+    });
+    console.log(`Resuming interrupted job ${job.id}`);
+    start(job);
+  }
+  return job;
+}
+
+// The failed items a retry would queue again: all of them, or only those for the given URLs
+export function retryableItems(job: JobDocument, urls?: string[]): JobItem[] {
+  const wanted = urls ? new Set(urls.map(normaliseUrl)) : null;
+  return job.items.filter(item => item.status === 'failed' && (!wanted || wanted.has(normaliseUrl(item.url))));
+}
+
+// Puts failed items (all of them, or only the given URLs) back in the queue
+export async function retryJob(id: string, urls?: string[]): Promise<{ job: WithId<JobDocument> | null; retried: number }> {
+  const job = await getJob(id);
+  if (!job) {
+    return { job: null, retried: 0 };
+  }
+
+  const items = retryableItems(job, urls);
+  items.forEach(item => {
+    item.status = 'pending';
+  });
+  const retried = items.length;
+
+  if (retried > 0) {
+    if (activeJobs.has(job.id)) {
+      // Workers still running will pick the items up
+      persist(job);
+    } else {
+      start(job);
+    }
+  }
+  return { job, retried };
+}
@@ -0,0 +1,45 @@
+// lib/languages.ts - Supported output languages and their writing direction
+
+export type LanguageCode = 'ur' | 'ar' | 'hi' | 'es';
+
+export type TextDirection = 'rtl' | 'ltr';
+
+export interface Language {
+  code: LanguageCode;
+  name: string;
+  nativeName: string;
+  dir: TextDirection;
+  // Heading shown above the translated summary
+  heading: string;
+  // Extra CSS class for script-specific fonts
+  className?: string;
+}
+
+export const LANGUAGES: Record<LanguageCode, Language> = {
+  ur: { code: 'ur', name: 'Urdu', nativeName: 'اردو', dir: 'rtl', heading: 'اردو خلاصہ', className: 'urdu-text' },
+  ar: { code: 'ar', name: 'Arabic', nativeName: 'العربية', dir: 'rtl', heading: 'الملخص بالعربية', className: 'arabic-text' },
+  hi: { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी', dir: 'ltr', heading: 'हिन्दी सारांश' },
+  es: { code: 'es', name: 'Spanish', nativeName: 'Español', dir: 'ltr', heading: 'Resumen en español' }
+};
+
+export const DEFAULT_LANGUAGES: LanguageCode[] = ['ur'];
+
+export function isLanguageCode(value: unknown): value is LanguageCode {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LANGUAGES, value);
+}
+
+// Hebrew, Arabic, Syriac, Thaana, NKo and Arabic presentation forms
+const RTL_CHARS = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/g;
+const LTR_CHARS = /[A-Za-z\u00C0-\u024F\u0370-\u03FF\u0400-\u04FF\u0900-\u097F]/g;
+
+// Guesses the direction of arbitrary text from the scripts its letters belong to
+export function detectDirection(text: string): TextDirection {
+  const rtl = (text.match(RTL_CHARS) || []).length;
+  const ltr = (text.match(LTR_CHARS) || []).length;
+  return rtl > ltr ? 'rtl' : 'ltr';
+}
+
+// Direction for a language code, detected from the text itself for unknown codes
+export function getDirection(code: string, text = ''): TextDirection {
+  return isLanguageCode(code) ? LANGUAGES[code].dir : detectDirection(text);
+}
@@ -0,0 +1,211 @@
+// lib/metadata.ts - Article metadata from JSON-LD, OpenGraph, Twitter cards and plain HTML
+
+import type { SiteRule } from '@/lib/siteRules';
+
+export interface ArticleMetadata {
+  url: string;
+  title?: string;
+  description?: string;
+  author?: string;
+  // Dates are ISO 8601 strings
+  publishedAt?: string;
+  modifiedAt?: string;
+  siteName?: string;
+  // Lead image (absolute URL)
+  image?: string;
+  canonicalUrl?: string;
+  // BCP 47 tag such as "en" or "ur-PK"
+  language?: string;
+  wordCount?: number;
+  // Whole minutes, at least 1
+  readingTime?: number;
+}
+
+// Average adult silent reading speed
+const WORDS_PER_MINUTE = 225;
+
+const ARTICLE_TYPES = /^(Article|BlogPosting|NewsArticle|TechArticle|Report|ScholarlyArticle|SocialMediaPosting|LiveBlogPosting|WebPage)$/;
+
+function clean(value: unknown): string | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const text = value.replace(/\s+/g, ' ').trim();
+  return text || undefined;
+}
+
+function absolute(value: string | undefined, baseUrl: string): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  try {
+    const url = new URL(value.trim(), baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Only values that name a year are trusted; "2 days ago" or "Tuesday" would parse to nonsense
+export function parseDate(value: string | undefined): string | undefined {
+  const text = clean(value);
+  if (!text || !/\d{4}/.test(text)) {
+    return undefined;
+  }
+  const time = Date.parse(text);
+  return isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+export function countWords(text: string): number {
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  return words.length;
+}
+
+export function readingTime(wordCount: number): number {
+  return Math.max(1, Math.ceil(wordCount / WORDS_PER_MINUTE));
+}
+
+// JSON-LD nodes of article types, including ones nested in @graph or arrays
+function findArticleNodes($: cheerio.Root): Record<string, any>[] {
+  const nodes: Record<string, any>[] = [];
+
+  const visit = (value: any) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+    if (!value || typeof value !== 'object') {
+      return;
+    }
+    if (value['@graph']) {
+      visit(value['@graph']);
+    }
+    const types: unknown[] = Array.isArray(value['@type']) ? value['@type'] : [value['@type']];
+    if (types.some(type => typeof type === 'string' && ARTICLE_TYPES.test(type))) {
+      nodes.push(value);
+    }
+  };
+
+  $('script[type="application/ld+json"]').each((_, script) => {
+    try {
+      visit(JSON.parse($(script).html() || ''));
+    } catch {
+      // Broken JSON-LD is common; the other sources still apply
+    }
+  });
+
+  // A WebPage node is only a fallback for pages that also describe the article itself
+  return nodes.sort((a, b) => Number(a['@type'] === 'WebPage') - Number(b['@type'] === 'WebPage'));
+}
+
+function personName(value: any): string | undefined {
+  if (Array.isArray(value)) {
+    const names = value.map(personName).filter(Boolean) as string[];
+    return names.length > 0 ? names.join(', ') : undefined;
+  }
+  if (value && typeof value === 'object') {
+    return clean(value.name);
+  }
+  return clean(value);
+}
+
+function imageUrl(value: any): string | undefined {
+  if (Array.isArray(value)) {
+    return imageUrl(value[0]);
+  }
+  if (value && typeof value === 'object') {
+    return clean(value.url) || clean(value.contentUrl);
+  }
+  return clean(value);
+}
+
+function first<T>(...values: (T | undefined)[]): T | undefined {
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] !== undefined) {
+      return values[i];
+    }
+  }
+  return undefined;
+}
+
+// Reads the page's metadata. Must run before scripts are stripped, since JSON-LD lives in them.
+// Site rule selectors come first, then JSON-LD, OpenGraph, Twitter cards and plain HTML.
+export function extractMetadata($: cheerio.Root, url: string, rule?: SiteRule): ArticleMetadata {
+  const meta = (name: string) =>
+    clean($(`meta[property="${name}"]`).attr('content')) || clean($(`meta[name="${name}"]`).attr('content'));
+  const ld = findArticleNodes($);
+  const fromLd = (read: (node: Record<string, any>) => string | undefined) =>
+    first(...ld.map(node => read(node)));
+
+  const ruleTitle = rule?.title ? clean($(rule.title).first().text()) : undefined;
+  let ruleDate: string | undefined;
+  if (rule?.date) {
+    const element = $(rule.date).first();
+    ruleDate = parseDate(element.attr('datetime') || element.attr('content') || element.text());
+  }
+
+  const publisher = fromLd(node => personName(node.publisher));
+  const timeElement = $('time[datetime]').first();
+
+  const metadata: ArticleMetadata = {
+    url,
+    title: first(
+      ruleTitle,
+      fromLd(node => clean(node.headline) || clean(node.name)),
+      meta('og:title'),
+      meta('twitter:title'),
+      clean($('title').first().text()),
+      clean($('h1').first().text())
+    ),
+    description: first(
+      meta('description'),
+      meta('og:description'),
+      meta('twitter:description'),
+      fromLd(node => clean(node.description))
+    ),
+    author: first(
+      fromLd(node => personName(node.author) || personName(node.creator)),
+      meta('author'),
+      meta('article:author'),
+      meta('parsely-author'),
+      meta('twitter:creator'),
+      clean($('[rel="author"]').first().text())
+    ),
+    publishedAt: first(
+      ruleDate,
+      fromLd(node => parseDate(node.datePublished) || parseDate(node.dateCreated)),
+      parseDate(meta('article:published_time')),
+      parseDate(meta('date')),
+      parseDate(meta('pubdate')),
+      parseDate(timeElement.attr('datetime'))
+    ),
+    modifiedAt: first(
+      fromLd(node => parseDate(node.dateModified)),
+      parseDate(meta('article:modified_time')),
+      parseDate(meta('og:updated_time'))
+    ),
+    siteName: first(meta('og:site_name'), publisher, meta('application-name')),
+    image: absolute(first(fromLd(node => imageUrl(node.image)), meta('og:image'), meta('twitter:image')), url),
+    canonicalUrl: absolute(first(clean($('link[rel="canonical"]').attr('href')), meta('og:url')), url),
+    language: first(
+      clean($('html').attr('lang')),
+      fromLd(node => clean(node.inLanguage)),
+      meta('og:locale')?.replace('_', '-'),
+      clean($('meta[http-equiv="content-language"]').attr('content'))
+    )
+  };
+
+  // Leave out what the page doesn't say, so stored documents only carry real values
+  Object.keys(metadata).forEach(key => {
+    if ((metadata as any)[key] === undefined) {
+      delete (metadata as any)[key];
+    }
+  });
+  return metadata;
+}
+
+// Word count and reading time are measured on the extracted article text, not the page
+export function withReadingStats(metadata: ArticleMetadata, content: string): ArticleMetadata {
+  const wordCount = countWords(content);
+  return { ...metadata, wordCount, readingTime: readingTime(wordCount) };
+}
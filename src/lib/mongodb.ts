@@ -1,43 +1,119 @@
-interface BlogDocument {
+import { getStorage, Repository, WithId } from '@/lib/storage';
+import { getDomain } from '@/lib/url';
+import type { LanguageCode } from '@/lib/languages';
+import type { ArticleMetadata } from '@/lib/metadata';
+import { contentKind } from '@/lib/sources';
+
+export interface BlogDocument {
   url: string;
   fullText: string;
+  // Markdown rendering of the article's structure, when it was extracted from HTML
+  markdown?: string;
   createdAt: Date;
 }
 
-interface SummaryDocument {
+// Translated summaries keyed by language code
+export type Translations = Partial<Record<LanguageCode, string>>;
+
+export interface SummaryDocument {
   url: string;
+  domain: string;
+  blogId?: string;
   summary: string;
-  translation: string;
+  translations: Translations;
+  // Single Urdu translation written by older versions; read through getTranslations
+  translation?: string;
+  // Article metadata, when the page provided it (see lib/metadata.ts)
+  title?: string;
+  description?: string;
+  author?: string;
+  publishedAt?: Date;
+  modifiedAt?: Date;
+  siteName?: string;
+  image?: string;
+  canonicalUrl?: string;
+  language?: string;
+  wordCount?: number;
+  readingTime?: number;
   createdAt: Date;
 }
 
-// Mock MongoDB functions (replace with actual MongoDB implementation)
-export async function saveFullText(url: string, fullText: string): Promise<void> {
+// Flattens scraped metadata into summary fields; dates become Date objects so they can be
+// range-filtered and sorted like createdAt
+function metadataFields(metadata?: ArticleMetadata): Partial<SummaryDocument> {
+  if (!metadata) {
+    return {};
+  }
+  const { url, publishedAt, modifiedAt, ...rest } = metadata;
+  const fields: Partial<SummaryDocument> = { ...rest };
+  if (publishedAt) {
+    fields.publishedAt = new Date(publishedAt);
+  }
+  if (modifiedAt) {
+    fields.modifiedAt = new Date(modifiedAt);
+  }
+  return fields;
+}
+
+export function getTranslations(doc: Pick<SummaryDocument, 'translations' | 'translation'>): Translations {
+  if (doc.translations) {
+    return doc.translations;
+  }
+  return doc.translation ? { ur: doc.translation } : {};
+}
+
+export const BLOGS_COLLECTION = 'blogs';
+export const SUMMARIES_COLLECTION = 'summaries';
+
+export function blogRepository(): Repository<BlogDocument> {
+  return getStorage().collection<BlogDocument>(BLOGS_COLLECTION);
+}
+
+export function summaryRepository(): Repository<SummaryDocument> {
+  return getStorage().collection<SummaryDocument>(SUMMARIES_COLLECTION);
+}
+
+export async function saveFullText(url: string, fullText: string, markdown?: string): Promise<WithId<BlogDocument>> {
   try {
-    // Mock implementation
-    console.log('Saving full text to MongoDB:', { url, fullText: fullText.substring(0, 100) + '...' });
-    
-    // Simulate database operation
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
-    console.log('Full text saved successfully');
+    const saved = await blogRepository().insert({ url, fullText, markdown, createdAt: new Date() });
+    console.log('Full text saved successfully:', { id: saved.id, url });
+    return saved;
   } catch (error) {
     console.error('Error saving to MongoDB:', error);
     throw new Error('Failed to save full text to MongoDB');
   }
 }
 
-export async function saveSummary(url: string, summary: string, translation: string): Promise<void> {
+export async function saveSummary(
+  url: string,
+  summary: string,
+  translations: Translations,
+  blogId?: string,
+  metadata?: ArticleMetadata
+): Promise<WithId<SummaryDocument>> {
   try {
-    // Mock implementation
-    console.log('Saving summary to MongoDB:', { url, summary, translation });
-    
-    // Simulate database operation
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
-    console.log('Summary saved successfully');
+    const saved = await summaryRepository().insert({
+      url,
+      // Uploads and pasted text are listed under "upload" and "paste" rather than their hash
+      domain: contentKind(url) || getDomain(url),
+      blogId,
+      summary,
+      translations,
+      ...metadataFields(metadata),
+      createdAt: new Date()
+    });
+    console.log('Summary saved successfully:', { id: saved.id, url });
+    return saved;
   } catch (error) {
     console.error('Error saving summary to MongoDB:', error);
     throw new Error('Failed to save summary to MongoDB');
   }
-}
\ No newline at end of file
+}
+
+export async function getFullText(url: string): Promise<WithId<BlogDocument> | null> {
+  return blogRepository().findOne({ url });
+}
+
+export async function getSummaries(url: string): Promise<WithId<SummaryDocument>[]> {
+  return summaryRepository().findMany({ url });
+}
@@ -0,0 +1,118 @@
+// lib/pagination.ts - Finds "next page" links and stitches multi-page articles together
+
+import { blocksToMarkdown, ContentBlock, StructuredDocument } from '@/lib/extract';
+import type { SiteRule } from '@/lib/siteRules';
+
+// Link text used for "next page" controls; "next post" style links are excluded below
+const NEXT_TEXT = /^(next( page)?|older|more|continue( reading)?|›|»|→|>|>>)\s*[›»→>]?$/i;
+const NOT_PAGINATION = /post|article|story|chapter|episode/i;
+
+function resolveSameSite(href: string | undefined, pageUrl: string): string | undefined {
+  if (!href || /^(javascript|mailto|tel|data):|^#/i.test(href.trim())) {
+    return undefined;
+  }
+  try {
+    const url = new URL(href.trim(), pageUrl);
+    const page = new URL(pageUrl);
+    if (url.hostname !== page.hostname || (url.protocol !== 'http:' && url.protocol !== 'https:')) {
+      return undefined;
+    }
+    url.hash = '';
+    return url.toString() === page.toString().split('#')[0] ? undefined : url.toString();
+  } catch {
+    return undefined;
+  }
+}
+
+// The page number a URL points at, from `?page=N`, `/page/N` or a trailing `/N`
+export function pageNumber(url: string): number | undefined {
+  const parsed = new URL(url);
+  const query = parsed.searchParams.get('page') || parsed.searchParams.get('p') || parsed.searchParams.get('pg');
+  if (query && /^\d+$/.test(query)) {
+    return Number(query);
+  }
+  const path = /\/(?:page\/)?(\d{1,3})\/?$/.exec(parsed.pathname);
+  return path ? Number(path[1]) : undefined;
+}
+
+// The same article's next page: `<link rel="next">`, `<a rel="next">` or a "Next" link whose
+// URL numbers the following page. Must run before navigation is stripped from the page.
+export function findNextPage($: cheerio.Root, url: string, rule?: SiteRule): string | undefined {
+  if (rule?.next) {
+    return resolveSameSite($(rule.next).first().attr('href'), url);
+  }
+
+  const current = pageNumber(url) || 1;
+  let found: string | undefined;
+
+  // Blog themes also mark the link to the next post with rel="next", so these links need to
+  // number the following page as well
+  $('link[rel~="next"], a[rel~="next"]').each((_, element) => {
+    const link = $(element);
+    const text = (link.text() || link.attr('aria-label') || link.attr('title') || '').replace(/\s+/g, ' ').trim();
+    const target = resolveSameSite(link.attr('href'), url);
+    if (target && !NOT_PAGINATION.test(text) && pageNumber(target) === current + 1) {
+      found = target;
+      return false;
+    }
+  });
+  if (found) {
+    return found;
+  }
+
+  $('a[href]').each((_, anchor) => {
+    const element = $(anchor);
+    const text = (element.text() || element.attr('aria-label') || '').replace(/\s+/g, ' ').trim();
+    const target = resolveSameSite(element.attr('href'), url);
+    if (!target) {
+      return;
+    }
+    // Numbered links ("2") and "Next" links count only when they point at the following page
+    if ((NEXT_TEXT.test(text) && !NOT_PAGINATION.test(text)) || text === String(current + 1)) {
+      if (pageNumber(target) === current + 1) {
+        found = target;
+        return false;
+      }
+    }
+  });
+  return found;
+}
+
+function blockKey(block: ContentBlock): string {
+  const text = block.type === 'list' ? block.items.join('\n') : block.text;
+  return `${block.type}:${text.replace(/\s+/g, ' ').trim().toLowerCase()}`;
+}
+
+// Joins the pages' blocks in order. Blocks already seen on an earlier page (bylines, share
+// prompts, "continued from page 1" notes, repeated headings) are left out.
+export function mergeDocuments(documents: StructuredDocument[]): StructuredDocument {
+  const seenBlocks = new Set<string>();
+  const seenLinks = new Set<string>();
+  const seenImages = new Set<string>();
+  const merged: StructuredDocument = { blocks: [], links: [], images: [], markdown: '' };
+
+  documents.forEach(document => {
+    document.blocks.forEach(block => {
+      const key = blockKey(block);
+      if (!seenBlocks.has(key)) {
+        seenBlocks.add(key);
+        merged.blocks.push(block);
+      }
+    });
+    document.links.forEach(link => {
+      if (!seenLinks.has(link.url)) {
+        seenLinks.add(link.url);
+        merged.links.push(link);
+      }
+    });
+    document.images.forEach(image => {
+      if (!seenImages.has(image.src)) {
+        seenImages.add(image.src);
+        merged.images.push(image);
+      }
+    });
+  });
+
+  merged.markdown = blocksToMarkdown(merged.blocks);
+  return merged;
+}
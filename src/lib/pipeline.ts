@@ -0,0 +1,352 @@
+// lib/pipeline.ts - Server-side scrape → summarise → translate → save pipeline
+
+import { ScrapeProgressEvent, scrapeBlogText, scrapeFile, scrapeWithFallback, ScrapingOptions, ScrapingResult } from '@/lib/scraper';
+import { isSummariserStrategy, summarise, SummariseOptions } from '@/lib/summariser';
+import { summariseAbstractive, AbstractiveResult } from '@/lib/abstractive';
+import { createDictionaryTranslator, createTranslator, getTranslatorConfig, translateAll, TranslationResult, TranslatorName } from '@/lib/translator';
+import { loadGlossary } from '@/lib/glossary';
+import { DEFAULT_LANGUAGES, isLanguageCode, LanguageCode } from '@/lib/languages';
+import { saveFullText, saveSummary, Translations } from '@/lib/mongodb';
+import { saveToSupabase } from '@/lib/supabase';
+import { markUrlSummarised } from '@/lib/feeds';
+import { isRenderMode, RenderMode } from '@/lib/renderer';
+import { contentUrl, detectSourceType, UploadedFile } from '@/lib/sources';
+
+export interface PipelineOptions {
+  useDemoFallback?: boolean;
+  // Bypass the scrape cache and fetch the page again
+  forceRefresh?: boolean;
+  // Summariser strategy and length
+  summary?: SummariseOptions;
+  // Ask the LLM provider for an abstractive summary (falls back to extractive)
+  abstractive?: boolean;
+  // Languages to translate the summary into (defaults to Urdu)
+  languages?: LanguageCode[];
+  // Most pages of a paginated article to merge (see SCRAPE_MAX_PAGES)
+  maxPages?: number;
+  // Load the page in the headless browser: 'always', 'never' or 'auto' (when static HTML is too thin)
+  render?: RenderMode;
+}
+
+export interface PipelineTimings {
+  scrape: number;
+  summarise: number;
+  translate: number;
+  save: number;
+  total: number;
+}
+
+export interface PipelineResult {
+  success: boolean;
+  error?: string;
+  // Why the page could not be fetched, when the fetch policy refused it
+  errorCode?: ScrapingResult['errorCode'];
+  content?: string;
+  metadata?: ScrapingResult['metadata'];
+  // Structured blocks, links, images and Markdown of the article
+  document?: ScrapingResult['document'];
+  // How sure the extractor is that `content` is the article body (0-1)
+  confidence?: ScrapingResult['confidence'];
+  // Pages of a paginated article merged into `content`
+  pages?: ScrapingResult['pages'];
+  // Content came from the headless browser
+  rendered?: ScrapingResult['rendered'];
+  // 'html', 'pdf', 'markdown' or 'text'
+  sourceType?: ScrapingResult['sourceType'];
+  cache?: ScrapingResult['cache'];
+  summary?: string;
+  summaryProvider?: AbstractiveResult['provider'];
+  // Set when an abstractive summary was requested but the extractive one was used
+  summaryFallbackReason?: string;
+  // One translation of the summary per requested language
+  translations?: Partial<Record<LanguageCode, TranslationResult>>;
+  // Id of the stored SummaryDocument, usable with /api/summaries/:id
+  summaryId?: string;
+  timings: PipelineTimings;
+}
+
+// Pasted content is sniffed as HTML or plain text unless the format is given
+export type PastedFormat = 'html' | 'text';
+
+export type PipelineStage = 'scraping' | 'summarizing' | 'translating' | 'saving';
+
+export type PipelineEvent =
+  | ScrapeProgressEvent
+  | { type: 'stage'; stage: PipelineStage }
+  | { type: 'summarised'; provider: AbstractiveResult['provider']; characters: number; chunks?: number }
+  | { type: 'translated'; language: LanguageCode; provider: TranslatorName; done: number; total: number }
+  | { type: 'saved'; target: 'full text' | 'summary' | 'supabase'; done: number; total: number };
+
+// One progress update; `progress` is an overall percentage for progress bars
+export interface PipelineProgress {
+  stage: PipelineStage;
+  progress: number;
+  event: PipelineEvent;
+}
+
+export type PipelineProgressHandler = (update: PipelineProgress) => void;
+
+const MIN_CONTENT_LENGTH = 50;
+
+// Share of the progress bar at which each stage starts; the scrape (with retries) is the slow part
+const STAGE_PROGRESS: Record<PipelineStage, [number, number]> = {
+  scraping: [0, 40],
+  summarizing: [40, 60],
+  translating: [60, 80],
+  saving: [80, 100]
+};
+
+// Where within its stage an event falls, from 0 to 1
+function stageFraction(event: PipelineEvent): number {
+  switch (event.type) {
+    case 'attempt':
+      return (event.attempt - 1) / event.retries;
+    case 'extracted':
+      return (event.attempt - 0.5) / event.retries;
+    case 'retry':
+      return event.attempt / event.retries;
+    case 'cache':
+    case 'summarised':
+      return 1;
+    case 'translated':
+    case 'saved':
+      return event.done / event.total;
+    default:
+      return 0;
+  }
+}
+
+// Validates the pipeline options accepted in API request bodies
+export function parsePipelineOptions(body: any): { options?: PipelineOptions; error?: string } {
+  const { useDemoFallback, forceRefresh, strategy, sentences, ratio, abstractive, languages, maxPages, render } = body || {};
+
+  if (strategy !== undefined && !isSummariserStrategy(strategy)) {
+    return { error: `Unknown summariser strategy "${strategy}"` };
+  }
+
+  if (ratio !== undefined && !(typeof ratio === 'number' && ratio > 0 && ratio <= 1)) {
+    return { error: '"ratio" must be a number between 0 and 1' };
+  }
+
+  if (languages !== undefined && !(Array.isArray(languages) && languages.every(isLanguageCode))) {
+    return { error: '"languages" must be an array of supported language codes' };
+  }
+
+  if (maxPages !== undefined && !(Number.isInteger(maxPages) && maxPages >= 1)) {
+    return { error: '"maxPages" must be a whole number of at least 1' };
+  }
+
+  if (render !== undefined && !isRenderMode(render)) {
+    return { error: '"render" must be "auto", "always" or "never"' };
+  }
+
+  return {
+    options: {
+      useDemoFallback: Boolean(useDemoFallback),
+      forceRefresh: Boolean(forceRefresh),
+      abstractive: Boolean(abstractive),
+      languages,
+      maxPages,
+      render,
+      summary: {
+        strategy,
+        sentences: Number(sentences) || undefined,
+        ratio
+      }
+    }
+  };
+}
+
+function emptyTimings(): PipelineTimings {
+  return { scrape: 0, summarise: 0, translate: 0, save: 0, total: 0 };
+}
+
+// Runs a stage and records how long it took (in ms) under the given key
+async function timed<T>(
+  timings: PipelineTimings,
+  stage: keyof Omit<PipelineTimings, 'total'>,
+  fn: () => T | Promise<T>
+): Promise<T> {
+  const start = Date.now();
+  try {
+    return await fn();
+  } finally {
+    timings[stage] = Date.now() - start;
+  }
+}
+
+export async function runPipeline(
+  url: string,
+  options: PipelineOptions = {},
+  onProgress?: PipelineProgressHandler
+): Promise<PipelineResult> {
+  return runStages(url, options, onProgress, scrapingOptions =>
+    options.useDemoFallback
+      ? scrapeWithFallback(url, scrapingOptions)
+      : scrapeBlogText(url, scrapingOptions)
+  );
+}
+
+// Summarises an uploaded PDF, Markdown, text or HTML file instead of fetching a URL
+export async function runFilePipeline(
+  file: UploadedFile,
+  options: PipelineOptions = {},
+  onProgress?: PipelineProgressHandler
+): Promise<PipelineResult> {
+  const url = contentUrl('upload', file.data, file.name);
+  return runStages(url, options, onProgress, () => scrapeFile(file, url));
+}
+
+// Summarises pasted article text or HTML without fetching anything. HTML goes through the same
+// cleaning as scraped pages; results are stored under paste://<content hash>.
+export async function runTextPipeline(
+  text: string,
+  format: PastedFormat | undefined,
+  options: PipelineOptions = {},
+  onProgress?: PipelineProgressHandler
+): Promise<PipelineResult> {
+  const url = contentUrl('paste', text);
+  const data = Buffer.from(text, 'utf8');
+  // The text was already decoded by the browser and is sent on as UTF-8, so a <meta charset>
+  // copied along with the page must not be trusted
+  const kind = format || (detectSourceType(undefined, '', data) === 'html' ? 'html' : 'text');
+  const file: UploadedFile = {
+    name: 'Pasted text',
+    type: `${kind === 'html' ? 'text/html' : 'text/plain'}; charset=utf-8`,
+    data
+  };
+  return runStages(url, options, onProgress, () => scrapeFile(file, url));
+}
+
+async function runStages(
+  url: string,
+  options: PipelineOptions,
+  onProgress: PipelineProgressHandler | undefined,
+  scrape: (scrapingOptions: ScrapingOptions) => Promise<ScrapingResult>
+): Promise<PipelineResult> {
+  const timings = emptyTimings();
+  const startedAt = Date.now();
+
+  const report = (stage: PipelineStage, event: PipelineEvent) => {
+    const [start, end] = STAGE_PROGRESS[stage];
+    onProgress?.({ stage, event, progress: Math.round(start + (end - start) * stageFraction(event)) });
+  };
+
+  const finish = (result: Omit<PipelineResult, 'timings'>): PipelineResult => {
+    timings.total = Date.now() - startedAt;
+    return { ...result, timings };
+  };
+
+  try {
+    // Step 1: Scrape blog content
+    report('scraping', { type: 'stage', stage: 'scraping' });
+    const scrapingOptions: ScrapingOptions = {
+      forceRefresh: options.forceRefresh,
+      maxPages: options.maxPages,
+      render: options.render,
+      onProgress: (event: ScrapeProgressEvent) => report('scraping', event)
+    };
+    const scrapingResult = await timed(timings, 'scrape', () => scrape(scrapingOptions));
+
+    if (!scrapingResult.success) {
+      return finish({
+        success: false,
+        error: scrapingResult.error || 'Failed to scrape content',
+        errorCode: scrapingResult.errorCode,
+        metadata: scrapingResult.metadata
+      });
+    }
+
+    const { content, document, confidence, pages, rendered, sourceType, metadata, cache } = scrapingResult;
+
+    if (!content || content.length < MIN_CONTENT_LENGTH) {
+      return finish({
+        success: false,
+        error: 'Insufficient content was extracted from the webpage',
+        metadata
+      });
+    }
+
+    // Step 2: Summarise (the Markdown keeps section boundaries for the summarisers)
+    report('summarizing', { type: 'stage', stage: 'summarizing' });
+    const source = document?.markdown || content;
+    const summarised = await timed(timings, 'summarise', (): AbstractiveResult | Promise<AbstractiveResult> =>
+      options.abstractive
+        ? summariseAbstractive(source, { extractive: options.summary })
+        : { summary: summarise(source, options.summary), provider: 'extractive' }
+    );
+    const { summary } = summarised;
+    report('summarizing', {
+      type: 'summarised',
+      provider: summarised.provider,
+      characters: summary.length,
+      chunks: summarised.chunks
+    });
+
+    // Step 3: Translate
+    const languages = options.languages && options.languages.length > 0 ? options.languages : DEFAULT_LANGUAGES;
+    report('translating', { type: 'stage', stage: 'translating' });
+    let translated = 0;
+    const translations = await timed(timings, 'translate', () =>
+      translateAll(
+        summary,
+        languages,
+        createTranslator(getTranslatorConfig(), loadGlossary),
+        createDictionaryTranslator(loadGlossary),
+        result => report('translating', {
+          type: 'translated',
+          language: result.language,
+          provider: result.provider,
+          done: ++translated,
+          total: languages.length
+        })
+      )
+    );
+    const translatedTexts: Translations = {};
+    languages.forEach(language => {
+      translatedTexts[language] = translations[language]?.text || '';
+    });
+
+    // Step 4: Save
+    report('saving', { type: 'stage', stage: 'saving' });
+    let saves = 0;
+    const saved = <T>(target: 'full text' | 'summary' | 'supabase', value: T): T => {
+      report('saving', { type: 'saved', target, done: ++saves, total: 3 });
+      return value;
+    };
+    const summaryId = await timed(timings, 'save', async () => {
+      const blog = saved('full text', await saveFullText(url, content, document?.markdown));
+      const [summaryDoc] = await Promise.all([
+        saveSummary(url, summary, translatedTexts, blog.id, metadata).then(doc => saved('summary', doc)),
+        saveToSupabase(url, content, summary, translatedTexts).then(done => saved('supabase', done)),
+      ]);
+      await markUrlSummarised(url, summaryDoc.id).catch(error =>
+        console.error('Error updating feed entries:', error)
+      );
+      return summaryDoc.id;
+    });
+
+    return finish({
+      success: true,
+      content,
+      document,
+      confidence,
+      pages,
+      rendered,
+      sourceType,
+      metadata,
+      cache,
+      summary,
+      summaryProvider: summarised.provider,
+      summaryFallbackReason: summarised.fallbackReason,
+      translations,
+      summaryId
+    });
+  } catch (error: any) {
+    console.error('Pipeline failed:', error);
+    return finish({
+      success: false,
+      error: error.message || 'Unexpected error occurred while summarizing'
+    });
+  }
+}
@@ -0,0 +1,88 @@
+// lib/politeness.ts - Per-host concurrency and spacing of requests, shared by every scrape in the process
+
+interface HostState {
+  active: number;
+  // Earliest time the next request to the host may start
+  nextStart: number;
+  waiting: (() => void)[];
+}
+
+export interface PolitenessConfig {
+  // Requests in flight to one host at a time
+  concurrency: number;
+  // Gap between request starts to one host when robots.txt sets no Crawl-delay
+  delayMs: number;
+  // Longest Crawl-delay honoured, so one site can't stall a request indefinitely
+  maxDelayMs: number;
+}
+
+export function getPolitenessConfig(): PolitenessConfig {
+  return {
+    concurrency: Math.max(1, Number(process.env.HOST_CONCURRENCY) || 2),
+    delayMs: Number(process.env.HOST_DELAY_MS ?? 1000) || 0,
+    maxDelayMs: Number(process.env.CRAWL_DELAY_MAX_MS) || 30000
+  };
+}
+
+// Kept on globalThis so routes, batch jobs and feed checks queue behind each other
+const globalHosts = globalThis as typeof globalThis & { __hostStates?: Map<string, HostState> };
+
+function hostStates(): Map<string, HostState> {
+  if (!globalHosts.__hostStates) {
+    globalHosts.__hostStates = new Map();
+  }
+  return globalHosts.__hostStates;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Runs `task` once the host has a free slot and its delay since the previous request has passed.
+// `crawlDelay` is the robots.txt Crawl-delay in seconds, if any.
+export async function withHostSlot<T>(
+  url: string,
+  crawlDelay: number | undefined,
+  task: () => Promise<T>,
+  config = getPolitenessConfig()
+): Promise<T> {
+  const host = new URL(url).host.toLowerCase();
+  const states = hostStates();
+  let state = states.get(host);
+  if (!state) {
+    state = { active: 0, nextStart: 0, waiting: [] };
+    states.set(host, state);
+  }
+
+  while (state.active >= config.concurrency) {
+    await new Promise<void>(resolve => state!.waiting.push(resolve));
+  }
+  state.active++;
+
+  // Reserve a start time before sleeping so requests queued together are spaced out
+  const delay = crawlDelay !== undefined ? Math.min(crawlDelay * 1000, config.maxDelayMs) : config.delayMs;
+  const now = Date.now();
+  const start = Math.max(now, state.nextStart);
+  state.nextStart = start + delay;
+
+  try {
+    if (start > now) {
+      await sleep(start - now);
+    }
+    return await task();
+  } finally {
+    state.active--;
+    const next = state.waiting.shift();
+    if (next) {
+      next();
+    } else if (state.active === 0) {
+      // Forget idle hosts once their delay has passed
+      const idle = state;
+      setTimeout(() => {
+        if (idle.active === 0 && idle.waiting.length === 0 && states.get(host) === idle) {
+          states.delete(host);
+        }
+      }, Math.max(0, idle.nextStart - Date.now()));
+    }
+  }
+}
@@ -0,0 +1,59 @@
+// lib/rateLimit.ts - In-process token buckets for per-client request rate limits
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Whole requests left in the bucket after this one
+  remaining: number;
+  // Seconds until a request would be allowed again (0 when allowed)
+  retryAfter: number;
+}
+
+export interface RateLimiter {
+  // Takes a token from `key`'s bucket, which holds `perMinute` tokens and refills at that rate
+  take(key: string, perMinute: number): RateLimitResult;
+  reset(key?: string): void;
+}
+
+export function createRateLimiter(maxBuckets = 10000): RateLimiter {
+  const buckets = new Map<string, Bucket>();
+
+  return {
+    take(key, perMinute) {
+      const now = Date.now();
+      const perMs = perMinute / 60000;
+      const bucket = buckets.get(key) || { tokens: perMinute, updatedAt: now };
+      bucket.tokens = Math.min(perMinute, bucket.tokens + (now - bucket.updatedAt) * perMs);
+      bucket.updatedAt = now;
+
+      // Re-inserting keeps the most recently used buckets at the end, so idle ones are dropped first
+      buckets.delete(key);
+      buckets.set(key, bucket);
+      while (buckets.size > maxBuckets) {
+        const oldest = buckets.keys().next().value;
+        if (oldest === undefined) {
+          break;
+        }
+        buckets.delete(oldest);
+      }
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfter: 0 };
+      }
+      return { allowed: false, remaining: 0, retryAfter: Math.ceil((1 - bucket.tokens) / perMs / 1000) };
+    },
+
+    reset(key) {
+      if (key) {
+        buckets.delete(key);
+      } else {
+        buckets.clear();
+      }
+    }
+  };
+}
@@ -0,0 +1,193 @@
+// lib/readability.ts - Readability-style scoring to find an article's main content
+
+export interface ContentCandidate {
+  // The best scoring element plus any siblings that look like part of the article
+  root: cheerio.Cheerio;
+  score: number;
+  // 0-1 estimate of how likely `root` is the real article body
+  confidence: number;
+}
+
+export interface ScoringOptions {
+  // Selectors of elements known to hold articles on common sites; matches get a bonus
+  hints?: string[];
+}
+
+// Text blocks shorter than this are not scored
+const MIN_PARAGRAPH_LENGTH = 25;
+const HINT_BONUS = 10;
+const CLASS_WEIGHT = 25;
+
+const POSITIVE = /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story/i;
+const NEGATIVE = /-ad-|\bads?\b|banner|combx|comment|com-|contact|cookie|foot|gdpr|masthead|media|meta|menu|nav|newsletter|outbrain|promo|related|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|tags|tool|widget/i;
+
+const BLOCK_CHILDREN = 'p, div, section, article, ul, ol, pre, blockquote, table, h1, h2, h3, h4, h5, h6';
+
+function isTag(node: cheerio.Element | null | undefined): node is cheerio.TagElement {
+  return Boolean(node) && node!.type === 'tag';
+}
+
+function textLength($: cheerio.Root, node: cheerio.Element): number {
+  return $(node).text().replace(/\s+/g, ' ').trim().length;
+}
+
+// Share of an element's text that sits inside links; navigation and link lists score high
+export function linkDensity($: cheerio.Root, node: cheerio.Element): number {
+  const total = textLength($, node);
+  if (total === 0) {
+    return 0;
+  }
+  let linked = 0;
+  $(node).find('a').each((_, anchor) => {
+    linked += textLength($, anchor);
+  });
+  return Math.min(1, linked / total);
+}
+
+function classWeight(node: cheerio.TagElement): number {
+  let weight = 0;
+  [node.attribs.class, node.attribs.id].forEach(value => {
+    if (!value) {
+      return;
+    }
+    if (NEGATIVE.test(value)) {
+      weight -= CLASS_WEIGHT;
+    }
+    if (POSITIVE.test(value)) {
+      weight += CLASS_WEIGHT;
+    }
+  });
+  return weight;
+}
+
+function tagWeight(name: string): number {
+  switch (name) {
+    case 'article':
+    case 'main':
+      return 10;
+    case 'div':
+    case 'section':
+      return 5;
+    case 'pre':
+    case 'td':
+    case 'blockquote':
+      return 3;
+    case 'address':
+    case 'ol':
+    case 'ul':
+    case 'dl':
+    case 'dd':
+    case 'dt':
+    case 'li':
+    case 'form':
+      return -3;
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+    case 'th':
+      return -5;
+    default:
+      return 0;
+  }
+}
+
+// Scores how much a block of text looks like article prose: length and commas
+function paragraphScore(text: string): number {
+  return 1 + (text.match(/,/g) || []).length + Math.min(Math.floor(text.length / 100), 3);
+}
+
+export function findMainContent($: cheerio.Root, options: ScoringOptions = {}): ContentCandidate | null {
+  const hint = options.hints && options.hints.length > 0 ? options.hints.join(', ') : null;
+  const scores = new Map<cheerio.TagElement, number>();
+  const candidates: cheerio.TagElement[] = [];
+
+  const addScore = (node: cheerio.Element | null | undefined, amount: number) => {
+    if (!isTag(node) || node.name === 'html') {
+      return;
+    }
+    if (!scores.has(node)) {
+      const bonus = hint && $(node).is(hint) ? HINT_BONUS : 0;
+      scores.set(node, tagWeight(node.name) + classWeight(node) + bonus);
+      candidates.push(node);
+    }
+    scores.set(node, scores.get(node)! + amount);
+  };
+
+  // Paragraphs (and divs used as paragraphs) give their score to their parent and half to
+  // their grandparent, so the element holding most of the prose wins
+  $('p, pre, td, blockquote, div').each((_, element) => {
+    if (!isTag(element) || (element.name === 'div' && $(element).children(BLOCK_CHILDREN).length > 0)) {
+      return;
+    }
+    const text = $(element).text().replace(/\s+/g, ' ').trim();
+    if (text.length < MIN_PARAGRAPH_LENGTH) {
+      return;
+    }
+    const score = paragraphScore(text);
+    addScore(element.parent, score);
+    addScore(element.parent?.parent, score / 2);
+  });
+
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  // Link-heavy candidates are navigation or link lists, not prose
+  const final = new Map<cheerio.TagElement, number>();
+  candidates.forEach(node => {
+    final.set(node, scores.get(node)! * (1 - linkDensity($, node)));
+  });
+  const ranked = candidates.slice().sort((a, b) => final.get(b)! - final.get(a)!);
+  const top = ranked[0];
+  const topScore = final.get(top)!;
+
+  // Articles split into sibling blocks (e.g. several <section>s) keep their good siblings
+  const threshold = Math.max(10, topScore * 0.2);
+  const members: cheerio.Element[] = isTag(top.parent)
+    ? $(top.parent).children().toArray().filter(sibling => {
+      if (sibling === top) {
+        return true;
+      }
+      if (!isTag(sibling)) {
+        return false;
+      }
+      if (final.has(sibling) && final.get(sibling)! >= threshold) {
+        return true;
+      }
+      const length = textLength($, sibling);
+      return sibling.name === 'p' && length > 80 && linkDensity($, sibling) < 0.25;
+    })
+    : [top];
+  const root = $(members);
+
+  // Ancestors of the winner score from the same paragraphs, so they are not competitors
+  const rival = ranked.find(node => members.indexOf(node) === -1 && !$.contains(node, top) && !$.contains(top, node));
+
+  return {
+    root,
+    score: topScore,
+    confidence: measureConfidence($, root, topScore, rival ? final.get(rival) : 0)
+  };
+}
+
+// Combines how much prose was found, how few links it has and how clearly it beat the
+// runner-up. Low values mean the page probably isn't an article or the pick is a guess.
+function measureConfidence($: cheerio.Root, root: cheerio.Cheerio, topScore: number, runnerUp = 0): number {
+  const text = root.text().replace(/\s+/g, ' ').trim();
+  const paragraphs = root.find('p').length + root.filter('p').length;
+  let linked = 0;
+  root.find('a').each((_, anchor) => {
+    linked += textLength($, anchor);
+  });
+
+  const length = Math.min(1, text.length / 2000);
+  const structure = Math.min(1, paragraphs / 5);
+  const links = 1 - Math.min(1, text.length ? linked / text.length : 1);
+  const margin = topScore > 0 ? Math.max(0, Math.min(1, 1 - runnerUp / topScore)) : 0;
+
+  const confidence = 0.35 * length + 0.25 * structure + 0.2 * links + 0.2 * margin;
+  return Math.round(confidence * 100) / 100;
+}
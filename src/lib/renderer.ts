@@ -0,0 +1,154 @@
+// lib/renderer.ts - Optional headless Chromium rendering for pages that build their content with JavaScript
+
+import type { Browser } from 'playwright-core';
+import { checkFetchable, getFetchPolicy } from '@/lib/fetchGuard';
+
+// 'auto' renders only when static extraction finds too little text; 'always' skips the static fetch
+export type RenderMode = 'auto' | 'always' | 'never';
+
+export interface RenderOptions {
+  timeout?: number;
+  userAgent?: string;
+  // Playwright resource types to abort, e.g. image, media, font, stylesheet
+  block?: string[];
+  // 'networkidle' waits for client-side fetches to settle; 'load' is faster on chatty pages
+  waitUntil?: 'load' | 'domcontentloaded' | 'networkidle';
+}
+
+export interface RendererConfig {
+  // Set RENDERER=playwright to enable the fallback
+  enabled: boolean;
+  // Static extractions shorter than this (in characters) are retried in the browser
+  minContent: number;
+  timeout: number;
+  block: string[];
+  // Chromium binary; defaults to the browser installed with `npx playwright-core install chromium`
+  executablePath?: string;
+}
+
+// Thrown when rendering is requested but the browser can't be started or the page can't be loaded
+export class RenderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RenderError';
+  }
+}
+
+export const RENDER_MODES: RenderMode[] = ['auto', 'always', 'never'];
+
+export function isRenderMode(value: unknown): value is RenderMode {
+  return RENDER_MODES.indexOf(value as RenderMode) !== -1;
+}
+
+export function getRendererConfig(): RendererConfig {
+  return {
+    enabled: (process.env.RENDERER || '').toLowerCase() === 'playwright',
+    minContent: Number(process.env.RENDER_MIN_CONTENT) || 500,
+    timeout: Number(process.env.RENDER_TIMEOUT_MS) || 20000,
+    block: (process.env.RENDER_BLOCK ?? 'image,media,font')
+      .split(',')
+      .map(type => type.trim())
+      .filter(Boolean),
+    executablePath: process.env.CHROMIUM_PATH || undefined
+  };
+}
+
+// One browser per process, started on first use; contexts keep renders isolated
+let browserPromise: Promise<Browser> | null = null;
+
+async function getBrowser(config: RendererConfig): Promise<Browser> {
+  if (!browserPromise) {
+    browserPromise = (async () => {
+      let playwright: typeof import('playwright-core');
+      try {
+        playwright = await import('playwright-core');
+      } catch {
+        throw new RenderError('Browser rendering needs the optional "playwright-core" package');
+      }
+      try {
+        const browser = await playwright.chromium.launch({
+          headless: true,
+          executablePath: config.executablePath,
+          timeout: config.timeout
+        });
+        browser.on('disconnected', () => {
+          browserPromise = null;
+        });
+        return browser;
+      } catch (error: any) {
+        throw new RenderError(
+          `Could not start Chromium (${error.message.split('\n')[0]}); run "npx playwright-core install chromium" or set CHROMIUM_PATH`
+        );
+      }
+    })();
+    // A failed launch is retried on the next render instead of being cached
+    browserPromise.catch(() => {
+      browserPromise = null;
+    });
+  }
+  return browserPromise;
+}
+
+// Loads the URL in headless Chromium and returns the HTML after scripts have run
+export async function renderPage(url: string, options: RenderOptions = {}): Promise<string> {
+  const config = getRendererConfig();
+  if (!config.enabled) {
+    throw new RenderError('Browser rendering is disabled; set RENDERER=playwright to enable it');
+  }
+  const timeout = options.timeout ?? config.timeout;
+  const block = new Set(options.block ?? config.block);
+  const policy = getFetchPolicy();
+
+  // Refuse the page itself with the policy's error before starting the browser
+  await checkFetchable(url, policy);
+
+  const browser = await getBrowser(config);
+  const context = await browser.newContext({ userAgent: options.userAgent, javaScriptEnabled: true });
+  try {
+    // Every request the page makes (redirects, scripts, XHR) goes through the fetch policy too.
+    // Chromium does its own DNS lookups, so this narrows but doesn't close the rebinding window.
+    await context.route('**/*', async route => {
+      const request = route.request();
+      if (block.has(request.resourceType())) {
+        return route.abort();
+      }
+      if (/^https?:/.test(request.url())) {
+        try {
+          await checkFetchable(request.url(), policy);
+        } catch (error: any) {
+          console.warn(`Browser request to ${request.url()} refused: ${error.message}`);
+          return route.abort('blockedbyclient');
+        }
+      }
+      return route.continue();
+    });
+    const page = await context.newPage();
+    page.setDefaultTimeout(timeout);
+    try {
+      const response = await page.goto(url, { waitUntil: options.waitUntil || 'networkidle', timeout });
+      if (response && response.status() >= 400) {
+        throw new RenderError(`Page returned HTTP ${response.status()} in the browser`);
+      }
+    } catch (error: any) {
+      if (error instanceof RenderError) {
+        throw error;
+      }
+      // Pages that keep polling never go network-idle; use whatever has rendered so far
+      if (error.name !== 'TimeoutError') {
+        throw new RenderError(`Browser could not load the page: ${error.message.split('\n')[0]}`);
+      }
+      console.warn(`Rendering ${url} timed out after ${timeout}ms, using the page as rendered so far`);
+    }
+    return await page.content();
+  } finally {
+    await context.close().catch(() => undefined);
+  }
+}
+
+export async function closeRenderer(): Promise<void> {
+  if (browserPromise) {
+    const browser = await browserPromise.catch(() => null);
+    browserPromise = null;
+    await browser?.close();
+  }
+}
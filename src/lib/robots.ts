@@ -0,0 +1,225 @@
+// lib/robots.ts - robots.txt fetching, parsing (RFC 9309) and caching
+
+import { createTtlCache } from '@/lib/cache';
+import { asPolicyError, FetchPolicyError, getFetchPolicy, guardedGet } from '@/lib/fetchGuard';
+
+export interface RobotsRule {
+  allow: boolean;
+  // Path prefix; `*` matches any characters and a trailing `$` anchors the end
+  pattern: string;
+}
+
+interface RobotsGroup {
+  // Lower-case product tokens from the group's User-agent lines
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+}
+
+// The rules that apply to one user agent on one site
+export interface RobotsPolicy {
+  rules: RobotsRule[];
+  // Seconds to wait between requests, from Crawl-delay
+  crawlDelay?: number;
+}
+
+export interface RobotsConfig {
+  // ROBOTS_TXT=ignore turns the checks off, e.g. for sites you own
+  respect: boolean;
+  cacheTtl: number;
+}
+
+// Crawlers must read at least 500 KiB; anything after that is ignored
+const MAX_ROBOTS_BYTES = 500 * 1024;
+// A site whose robots.txt errors is asked again sooner than one that answered
+const UNAVAILABLE_TTL = 10 * 60 * 1000;
+
+const ALLOW_ALL: RobotsPolicy = { rules: [] };
+const DISALLOW_ALL: RobotsPolicy = { rules: [{ allow: false, pattern: '/' }] };
+
+export function getRobotsConfig(): RobotsConfig {
+  return {
+    respect: process.env.ROBOTS_TXT !== 'ignore',
+    cacheTtl: Number(process.env.ROBOTS_CACHE_TTL_MS) || 24 * 60 * 60 * 1000
+  };
+}
+
+export function parseRobots(text: string): RobotsTxt {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | undefined;
+  // Consecutive User-agent lines share one group; any other line ends the list of agents
+  let collectingAgents = false;
+
+  text.split(/\r\n|\r|\n/).forEach(rawLine => {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const match = /^([A-Za-z-]+)\s*:\s*(.*)$/.exec(line);
+    if (!match) {
+      return;
+    }
+    const key = match[1].toLowerCase();
+    const value = match[2].trim();
+
+    if (key === 'user-agent') {
+      if (!current || !collectingAgents) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      collectingAgents = true;
+      return;
+    }
+    collectingAgents = false;
+    if (!current) {
+      return;
+    }
+
+    if ((key === 'allow' || key === 'disallow') && value) {
+      current.rules.push({ allow: key === 'allow', pattern: value });
+    } else if (key === 'crawl-delay' && !isNaN(Number(value)) && Number(value) >= 0) {
+      current.crawlDelay = Number(value);
+    }
+  });
+
+  return { groups };
+}
+
+// The name robots.txt groups address, e.g. "BlogSummarizerBot" for "BlogSummarizerBot/1.0 (+url)"
+export function productToken(userAgent: string): string {
+  return userAgent.trim().split(/[\/\s]/)[0].toLowerCase();
+}
+
+// Groups naming the bot's product token exactly (case-insensitively, as RFC 9309 asks) win over `*`;
+// several groups for the same bot are combined
+export function policyFor(robots: RobotsTxt, userAgent: string): RobotsPolicy {
+  const token = productToken(userAgent);
+  let groups = robots.groups.filter(group => group.agents.some(agent => agent === token));
+  if (groups.length === 0) {
+    groups = robots.groups.filter(group => group.agents.indexOf('*') !== -1);
+  }
+
+  const policy: RobotsPolicy = { rules: [] };
+  groups.forEach(group => {
+    policy.rules.push(...group.rules);
+    if (group.crawlDelay !== undefined) {
+      policy.crawlDelay = Math.max(policy.crawlDelay || 0, group.crawlDelay);
+    }
+  });
+  return policy;
+}
+
+function patternMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.charAt(pattern.length - 1) === '$';
+  const source = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp('^' + source + (anchored ? '$' : '')).test(path);
+}
+
+function decodePath(path: string): string {
+  try {
+    return decodeURIComponent(path);
+  } catch {
+    return path;
+  }
+}
+
+// The longest matching rule decides; Allow wins a tie. /robots.txt itself is always allowed.
+export function isAllowed(policy: RobotsPolicy, url: string): boolean {
+  const parsed = new URL(url);
+  if (parsed.pathname === '/robots.txt') {
+    return true;
+  }
+  const path = decodePath(parsed.pathname + parsed.search);
+  let best: RobotsRule | undefined;
+  policy.rules.forEach(rule => {
+    if (!patternMatches(decodePath(rule.pattern), path)) {
+      return;
+    }
+    if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+      best = rule;
+    }
+  });
+  return !best || best.allow;
+}
+
+// Parsed robots.txt per origin; pending fetches are shared so a burst of requests asks once
+const robotsCache = createTtlCache<RobotsTxt | null>(24 * 60 * 60 * 1000, 1000);
+const pendingFetches = new Map<string, Promise<RobotsTxt | null>>();
+
+export function clearRobotsCache(): void {
+  robotsCache.clear();
+}
+
+// null means the site's robots.txt is unavailable (5xx), which disallows everything
+async function fetchRobots(origin: string, userAgent: string, config: RobotsConfig): Promise<RobotsTxt | null> {
+  try {
+    const response = await guardedGet(
+      `${origin}/robots.txt`,
+      { timeout: 5000, headers: { 'User-Agent': userAgent } },
+      { ...getFetchPolicy(), maxBytes: MAX_ROBOTS_BYTES }
+    );
+    const robots = parseRobots(response.body.toString('utf8'));
+    robotsCache.set(origin, robots, config.cacheTtl);
+    return robots;
+  } catch (error: any) {
+    const policyError = asPolicyError(error);
+    // The site itself can't be fetched; let the page fetch report why
+    if (policyError && policyError.code !== 'RESPONSE_TOO_LARGE' && policyError.code !== 'UNSUPPORTED_CONTENT_TYPE') {
+      throw policyError;
+    }
+    const status = error.response?.status;
+    if (status >= 500) {
+      console.warn(`robots.txt for ${origin} returned HTTP ${status}; treating the site as disallowed for now`);
+      robotsCache.set(origin, null, UNAVAILABLE_TTL);
+      return null;
+    }
+    if (!policyError && !status) {
+      // Network errors aren't cached; the page fetch will most likely fail the same way
+      console.warn(`Could not fetch robots.txt for ${origin}:`, error.message);
+      return { groups: [] };
+    }
+    // A missing (4xx) or unreadable robots.txt places no restrictions
+    const robots = { groups: [] };
+    robotsCache.set(origin, robots, config.cacheTtl);
+    return robots;
+  }
+}
+
+export async function getRobotsPolicy(url: string, userAgent: string, config = getRobotsConfig()): Promise<RobotsPolicy> {
+  if (!config.respect) {
+    return ALLOW_ALL;
+  }
+  const origin = new URL(url).origin;
+  const cached = robotsCache.peek(origin);
+  let robots: RobotsTxt | null;
+
+  if (cached?.fresh) {
+    robots = cached.value;
+  } else {
+    let pending = pendingFetches.get(origin);
+    if (!pending) {
+      pending = fetchRobots(origin, userAgent, config);
+      pendingFetches.set(origin, pending);
+      pending.then(() => pendingFetches.delete(origin), () => pendingFetches.delete(origin));
+    }
+    robots = await pending;
+  }
+  return robots ? policyFor(robots, userAgent) : DISALLOW_ALL;
+}
+
+// Refuses URLs that the site's robots.txt disallows for this user agent
+export async function checkRobots(url: string, userAgent: string, config = getRobotsConfig()): Promise<RobotsPolicy> {
+  const policy = await getRobotsPolicy(url, userAgent, config);
+  if (policy === DISALLOW_ALL) {
+    throw new FetchPolicyError('ROBOTS_DISALLOWED', `robots.txt for ${new URL(url).host} is unavailable, so the site is treated as disallowed`);
+  }
+  if (!isAllowed(policy, url)) {
+    throw new FetchPolicyError('ROBOTS_DISALLOWED', `${url} is disallowed by the site's robots.txt`);
+  }
+  return policy;
+}
@@ -1,30 +1,112 @@
 // lib/scraper.ts - Enhanced scraper with better error handling and fallbacks
 
-import axios from 'axios';
 import * as cheerio from 'cheerio';
+import { createTtlCache } from '@/lib/cache';
+import { normaliseUrl } from '@/lib/url';
+import { blocksToText, extractDocument, StructuredDocument } from '@/lib/extract';
+import { findMainContent } from '@/lib/readability';
+import { findSiteRule, SiteRule } from '@/lib/siteRules';
+import { ArticleMetadata, extractMetadata, withReadingStats } from '@/lib/metadata';
+import { findNextPage, mergeDocuments } from '@/lib/pagination';
+import { getRendererConfig, renderPage, RenderMode, RenderOptions } from '@/lib/renderer';
+import { contentUrl, detectSourceType, extractSource, SourceType, UploadedFile } from '@/lib/sources';
+import { asPolicyError, checkUrl, FetchErrorCode, guardedGet } from '@/lib/fetchGuard';
+import { checkRobots } from '@/lib/robots';
+import { withHostSlot } from '@/lib/politeness';
+import { decodeBody } from '@/lib/charset';
 
-interface ScrapingOptions {
+export interface ScrapingOptions {
   timeout?: number;
   retries?: number;
-  userAgent?: string;
   headers?: Record<string, string>;
+  // Sent with every request and matched against robots.txt groups by its first word
+  userAgent?: string;
+  // Skip the cache and conditional GETs and always fetch the page again
+  forceRefresh?: boolean;
+  cacheTtl?: number;
+  // Most pages of a paginated article to fetch and merge (1 disables pagination)
+  maxPages?: number;
+  // Headless browser use; unset means 'auto', or 'always' for domains whose site rule sets `render`
+  render?: RenderMode;
+  // Timeout, blocked resource types and wait condition for the browser (defaults from RENDER_* settings)
+  renderOptions?: RenderOptions;
+  // Called as the scrape goes along, e.g. to stream progress to the browser
+  onProgress?: (event: ScrapeProgressEvent) => void;
 }
 
-interface ScrapingResult {
+export type ScrapeProgressEvent =
+  | { type: 'cache'; status: 'hit' | 'revalidated' }
+  | { type: 'attempt'; attempt: number; retries: number }
+  | { type: 'extracted'; attempt: number; retries: number; characters: number }
+  | { type: 'retry'; attempt: number; retries: number; delay: number; error: string }
+  | { type: 'page'; page: number; url: string }
+  | { type: 'render'; reason: 'forced' | 'low-content' };
+
+export interface ScrapingResult {
   success: boolean;
   content?: string;
   error?: string;
-  metadata?: {
-    title?: string;
-    description?: string;
-    url: string;
-  };
+  // Set when the fetch was refused by the safety policy (private address, blocked domain,
+  // oversized response, unexpected content type; see lib/fetchGuard.ts)
+  errorCode?: FetchErrorCode;
+  // Title, author, dates, canonical URL, language, reading time and so on (see lib/metadata.ts)
+  metadata?: ArticleMetadata;
+  // Headings, paragraphs, lists, code and quotes plus the article's links, images and Markdown
+  document?: StructuredDocument;
+  // 0-1 estimate of how likely the extracted content is the article body
+  confidence?: number;
+  // Number of pages of a paginated article merged into `content` (1 for single-page articles)
+  pages?: number;
+  // True when the content came from the headless browser rather than the static HTML
+  rendered?: boolean;
+  // How the source was read: an HTML page, a PDF's text layer, Markdown or plain text
+  sourceType?: SourceType;
+  // 'hit' when served from cache, 'revalidated' when the server answered 304
+  cache?: 'hit' | 'revalidated' | 'miss';
+}
+
+interface CachedPage {
+  result: ScrapingResult;
+  etag?: string;
+  lastModified?: string;
+}
+
+interface FetchedPage {
+  notModified: boolean;
+  body: Buffer;
+  // The body decoded as text, in the charset the page declares or appears to use; empty for PDFs
+  html: string;
+  contentType?: string;
+  etag?: string;
+  lastModified?: string;
 }
 
+const DEFAULT_CACHE_TTL = Number(process.env.SCRAPE_CACHE_TTL_MS) || 60 * 60 * 1000;
+const DEFAULT_MAX_PAGES = Number(process.env.SCRAPE_MAX_PAGES) || 10;
+
+// Successful scrapes keyed by normalised URL; stale entries are kept for conditional GETs
+const pageCache = createTtlCache<CachedPage>(DEFAULT_CACHE_TTL);
+
+export function clearScrapeCache(url?: string): void {
+  if (url) {
+    pageCache.delete(normaliseUrl(url));
+  } else {
+    pageCache.clear();
+  }
+}
+
+// Identifies the scraper honestly so site owners can address it in robots.txt
+export const DEFAULT_USER_AGENT = process.env.SCRAPER_USER_AGENT ||
+  `BlogSummarizerBot/1.0${process.env.SCRAPER_CONTACT ? ` (+${process.env.SCRAPER_CONTACT})` : ''}`;
+
+// Longest Retry-After honoured before giving up on a retry schedule
+const MAX_RETRY_AFTER_MS = 30000;
+
 const DEFAULT_OPTIONS: ScrapingOptions = {
   timeout: 10000,
   retries: 3,
-  userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+  maxPages: DEFAULT_MAX_PAGES,
+  userAgent: DEFAULT_USER_AGENT,
   headers: {
     'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
     'Accept-Language': 'en-US,en;q=0.5',
@@ -35,19 +117,13 @@ const DEFAULT_OPTIONS: ScrapingOptions = {
   }
 };
 
-// List of common article selectors to try (OpenAI specific ones added)
+// Common article containers; matching elements get a bonus when content is scored
+// (site-specific selectors belong in the site rules file, see lib/siteRules.ts)
 const ARTICLE_SELECTORS = [
-  // OpenAI blog specific
-  '.blog-post-content',
-  '.post-content',
-  '.blog-content',
-  '[data-testid="blog-content"]',
-  '.content-wrapper',
-  
-  // Generic article selectors
   'article',
   '[role="main"]',
   '.post-content',
+  '.blog-content',
   '.entry-content',
   '.article-content',
   '.content',
@@ -59,15 +135,7 @@ const ARTICLE_SELECTORS = [
   '#content',
   '.blog-post',
   '.post',
-  '.entry',
-  
-  // Fallback selectors
-  'div[class*="content"]',
-  'div[class*="post"]',
-  'div[class*="article"]',
-  'div[class*="blog"]',
-  'section[class*="content"]',
-  'section[class*="post"]'
+  '.entry'
 ];
 
 // Selectors to remove (ads, navigation, etc.)
@@ -97,75 +165,183 @@ function cleanText(text: string): string {
     .trim();
 }
 
-function extractMainContent($: cheerio.Root): string {
+export interface ExtractedPage {
+  content: string;
+  document: StructuredDocument;
+  confidence: number;
+  metadata: ArticleMetadata;
+  // Absolute URL of the article's next page, from the site rule or the page's pagination links
+  nextPage?: string;
+}
+
+function extractMainContent($: cheerio.Root, url: string, rule?: SiteRule): Omit<ExtractedPage, 'metadata'> {
   // Remove noise elements
-  NOISE_SELECTORS.forEach(selector => {
+  NOISE_SELECTORS.concat(rule?.noise || []).forEach(selector => {
     $(selector).remove();
   });
 
-  let bestContent = '';
-  let bestLength = 0;
-
-  // Try to find main content using various selectors
-  for (const selector of ARTICLE_SELECTORS) {
-    const elements = $(selector);
-    if (elements.length > 0) {
-      elements.each((_, element) => {
-        const text = $(element).text();
-        const cleanedText = cleanText(text);
-        
-        if (cleanedText.length > bestLength) {
-          bestContent = cleanedText;
-          bestLength = cleanedText.length;
-        }
-      });
+  const extract = (root: cheerio.Cheerio, confidence: number) => {
+    const document = extractDocument($, root, url);
+    return { content: blocksToText(document.blocks), document, confidence };
+  };
+
+  // A site rule's content selector wins when it finds a reasonable amount of text
+  if (rule?.content) {
+    const root = $(rule.content);
+    if (cleanText(root.text()).length >= 100) {
+      return extract(root, 1);
     }
+    console.warn(`Site rule content selector "${rule.content}" matched too little text on ${url}`);
   }
 
-  // If we found good content, return it
-  if (bestContent.length > 1000) {
-    return bestContent;
+  // Score candidates on text and link density, paragraphs and class names
+  const candidate = findMainContent($, { hints: ARTICLE_SELECTORS });
+  const best = candidate ? extract(candidate.root, candidate.confidence) : null;
+
+  // Last resort: pages without paragraph-like blocks get the whole body, with no confidence
+  if (!best || best.content.length < 50) {
+    const fromBody = extract($('body'), 0);
+    if (!best || fromBody.content.length > best.content.length) {
+      return fromBody;
+    }
   }
 
-  // Fallback: try paragraph-based extraction
-  const paragraphs = $('p');
-  let paragraphContent = '';
-  paragraphs.each((_, p) => {
-    const text = $(p).text().trim();
-    if (text.length > 20) { // Only substantial paragraphs
-      paragraphContent += text + '\n\n';
+  return best!;
+}
+
+// Pulls metadata and the main content out of a page, applying the site rule for its domain
+export function extractPage(html: string, url: string, rule: SiteRule | undefined = findSiteRule(url)): ExtractedPage {
+  const $ = cheerio.load(html);
+
+  // Metadata and the next page link first: noise removal strips the JSON-LD scripts and
+  // the navigation that pagination links usually sit in
+  const pageMetadata = extractMetadata($, url, rule);
+  const nextPage = findNextPage($, url, rule);
+
+  // Extract main content with multiple strategies
+  const extracted = extractMainContent($, url, rule);
+  const metadata = withReadingStats(pageMetadata, extracted.content);
+
+  return { ...extracted, metadata, nextPage };
+}
+
+function renderOptionsFor(options: ScrapingOptions): RenderOptions {
+  return { userAgent: options.userAgent, ...options.renderOptions };
+}
+
+// Fetches the following pages of a paginated article and merges them into the first one,
+// in the browser when the first page needed it. A page that fails to load or comes back
+// empty ends the article there.
+async function followPages(
+  url: string,
+  first: ExtractedPage,
+  options: ScrapingOptions,
+  report: (event: ScrapeProgressEvent) => void,
+  render = false
+): Promise<ExtractedPage & { pages: number }> {
+  // Callers may pass `maxPages: undefined`, which overrides the default when options are spread
+  const maxPages = options.maxPages || DEFAULT_MAX_PAGES;
+  const pages = [first];
+  const visited = new Set([normaliseUrl(url)]);
+  let next = first.nextPage;
+
+  while (next && pages.length < maxPages && !visited.has(normaliseUrl(next))) {
+    visited.add(normaliseUrl(next));
+    report({ type: 'page', page: pages.length + 1, url: next });
+    try {
+      const html = render ? await renderPolitely(next, options) : (await makeRequest(next, options)).html;
+      const page = extractPage(html, next);
+      if (page.content.length < 50) {
+        console.warn(`Stopping pagination at ${next}: too little content`);
+        break;
+      }
+      pages.push(page);
+      next = page.nextPage;
+    } catch (error: any) {
+      console.warn(`Stopping pagination at ${next}:`, getErrorMessage(error));
+      break;
     }
-  });
+  }
 
-  if (paragraphContent.length > bestContent.length) {
-    bestContent = cleanText(paragraphContent);
+  if (pages.length === 1) {
+    return { ...first, pages: 1 };
   }
 
-  // Last resort: try to get body content
-  if (bestContent.length < 50) {
-    const bodyText = $('body').text();
-    const cleanedBodyText = cleanText(bodyText);
-    if (cleanedBodyText.length > bestContent.length) {
-      bestContent = cleanedBodyText;
+  console.log(`Merged ${pages.length} pages of ${url}`);
+  const document = mergeDocuments(pages.map(page => page.document));
+  const content = blocksToText(document.blocks);
+  return {
+    content,
+    document,
+    confidence: first.confidence,
+    metadata: withReadingStats(first.metadata, content),
+    pages: pages.length
+  };
+}
+
+// Checks robots.txt, then waits for the host's turn (see lib/politeness.ts) before running `task`
+async function politely<T>(url: string, options: ScrapingOptions, task: () => Promise<T>): Promise<T> {
+  const robots = await checkRobots(url, options.userAgent || DEFAULT_USER_AGENT);
+  return withHostSlot(url, robots.crawlDelay, task);
+}
+
+function renderPolitely(url: string, options: ScrapingOptions): Promise<string> {
+  return politely(url, options, () => renderPage(url, renderOptionsFor(options)));
+}
+
+// Waits as long as a 429 or 503 response's Retry-After asks (seconds or an HTTP date), within
+// limits, and otherwise backs off exponentially
+function retryDelay(error: any, attempt: number): number {
+  const backoff = Math.min(1000 * Math.pow(2, attempt - 1), 5000);
+  const status = error?.response?.status;
+  const retryAfter = error?.response?.headers?.['retry-after'];
+  if ((status === 429 || status === 503) && retryAfter) {
+    const seconds = Number(retryAfter);
+    const ms = isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+    if (!isNaN(ms)) {
+      return Math.min(Math.max(ms, backoff), MAX_RETRY_AFTER_MS);
     }
   }
+  return backoff;
+}
 
-  return bestContent;
+function header(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
 }
 
-async function makeRequest(url: string, options: ScrapingOptions): Promise<string> {
-  const config = {
+async function makeRequest(
+  url: string,
+  options: ScrapingOptions,
+  cached?: CachedPage
+): Promise<FetchedPage> {
+  const conditionalHeaders: Record<string, string> = {};
+  if (cached?.etag) {
+    conditionalHeaders['If-None-Match'] = cached.etag;
+  }
+  if (cached?.lastModified) {
+    conditionalHeaders['If-Modified-Since'] = cached.lastModified;
+  }
+
+  // Raw bytes, since the body may be a PDF rather than text
+  const response = await politely(url, options, () => guardedGet(url, {
     timeout: options.timeout,
     headers: {
       'User-Agent': options.userAgent,
-      ...options.headers
-    },
-    maxRedirects: 5,
-    validateStatus: (status: number) => status < 400
+      ...options.headers,
+      ...conditionalHeaders
+    }
+  }));
+  const body = response.body;
+  // PDFs are read from the raw bytes; there is no text to decode
+  const binary = detectSourceType(response.headers['content-type'], url, body) === 'pdf';
+  return {
+    notModified: response.status === 304,
+    body,
+    html: binary ? '' : decodeBody(body, response.headers['content-type']).text,
+    contentType: response.headers['content-type'],
+    etag: header(response.headers['etag']),
+    lastModified: header(response.headers['last-modified'])
   };
-
-  const response = await axios.get(url, config);
-  return response.data;
 }
 
 export async function scrapeBlogText(
@@ -173,54 +349,136 @@ export async function scrapeBlogText(
   options: ScrapingOptions = {}
 ): Promise<ScrapingResult> {
   const finalOptions = { ...DEFAULT_OPTIONS, ...options };
+  const report = finalOptions.onProgress || (() => {});
   
-  if (!url || !isValidUrl(url)) {
-    return {
-      success: false,
-      error: 'Invalid URL provided'
-    };
+  try {
+    checkUrl(url || '');
+  } catch (error: any) {
+    return { success: false, error: error.message, errorCode: error.code };
   }
 
+  // Pages that build their content with JavaScript are loaded in the headless browser: always
+  // when forced by the request or the site rule, otherwise once if static extraction finds
+  // too little text. Either way only when the renderer is enabled; without it a forced render
+  // falls back to the static fetch, so callers can't make the server start a browser.
+  const rule = findSiteRule(url);
+  const renderer = getRendererConfig();
+  let renderMode: RenderMode = finalOptions.render && finalOptions.render !== 'auto'
+    ? finalOptions.render
+    : rule?.render ? 'always' : 'auto';
+  if (renderMode === 'always' && !renderer.enabled) {
+    console.warn(`Browser rendering is disabled (set RENDERER=playwright); fetching ${url} without it`);
+    renderMode = 'auto';
+  }
+
+  // The cache only holds pages scraped with the default page limit and render mode for the URL.
+  // Other settings give different content, so they are neither served from it nor stored in it.
+  const defaultRenderMode: RenderMode = rule?.render && renderer.enabled ? 'always' : 'auto';
+  const cacheable = (finalOptions.maxPages || DEFAULT_MAX_PAGES) === DEFAULT_MAX_PAGES && renderMode === defaultRenderMode;
+  const cacheKey = normaliseUrl(url);
+  const cacheTtl = finalOptions.cacheTtl ?? DEFAULT_CACHE_TTL;
+  const cachedEntry = finalOptions.forceRefresh || !cacheable ? undefined : pageCache.peek(cacheKey);
+
+  if (cachedEntry?.fresh) {
+    console.log(`Serving cached content for: ${cacheKey}`);
+    report({ type: 'cache', status: 'hit' });
+    return { ...cachedEntry.value.result, cache: 'hit' };
+  }
+
+  const cached = cachedEntry?.value;
+  let validators: Pick<CachedPage, 'etag' | 'lastModified'> = {};
+
+  // Only complete scrapes are cached; fallbacks built from partial attempts are not
+  const remember = (result: ScrapingResult): ScrapingResult => {
+    if (cacheable) {
+      pageCache.set(cacheKey, { result, ...validators }, cacheTtl);
+    }
+    return { ...result, cache: 'miss' };
+  };
+
   let lastError: any;
   let bestContent = '';
-  let bestMetadata: any = { url };
+  let bestDocument: StructuredDocument | undefined;
+  let bestConfidence = 0;
+  let bestMetadata: ArticleMetadata = { url };
+  let bestRendered = false;
+
+  let triedRender = false;
   
   for (let attempt = 1; attempt <= finalOptions.retries!; attempt++) {
     try {
       console.log(`Scraping attempt ${attempt}/${finalOptions.retries} for: ${url}`);
+      report({ type: 'attempt', attempt, retries: finalOptions.retries! });
       
-      const html = await makeRequest(url, finalOptions);
-      const $ = cheerio.load(html);
-      
-      // Extract metadata
-      const title = $('title').text() || $('h1').first().text() || '';
-      const description = $('meta[name="description"]').attr('content') || 
-                         $('meta[property="og:description"]').attr('content') || '';
-      
-      const metadata = {
-        title: cleanText(title),
-        description: cleanText(description),
-        url
-      };
-      
-      // Extract main content with multiple strategies
-      const content = extractMainContent($);
+      let page: FetchedPage;
+      if (renderMode === 'always') {
+        report({ type: 'render', reason: 'forced' });
+        const html = await renderPolitely(url, finalOptions);
+        page = { notModified: false, body: Buffer.from(html), html };
+      } else {
+        page = await makeRequest(url, finalOptions, cached);
+      }
+
+      if (page.notModified && cached) {
+        console.log(`Content not modified, reusing cached copy of: ${cacheKey}`);
+        validators = {
+          etag: page.etag || cached.etag,
+          lastModified: page.lastModified || cached.lastModified
+        };
+        pageCache.set(cacheKey, { ...cached, ...validators }, cacheTtl);
+        report({ type: 'cache', status: 'revalidated' });
+        return { ...cached.result, cache: 'revalidated' };
+      }
+
+      validators = { etag: page.etag, lastModified: page.lastModified };
+      const sourceType = renderMode === 'always' ? 'html' : detectSourceType(page.contentType, url, page.body);
+      let extracted = sourceType === 'html'
+        ? extractPage(page.html, url, rule)
+        : await extractSource(sourceType, page.body, url, page.contentType);
+      let rendered = renderMode === 'always';
+
+      if (sourceType === 'html' && renderMode === 'auto' && renderer.enabled && !triedRender && extracted.content.length < renderer.minContent) {
+        triedRender = true;
+        console.log(`Only ${extracted.content.length} characters in the static HTML, rendering ${url} in the browser`);
+        report({ type: 'render', reason: 'low-content' });
+        try {
+          const fromBrowser = extractPage(await renderPolitely(url, finalOptions), url, rule);
+          if (fromBrowser.content.length > extracted.content.length) {
+            extracted = fromBrowser;
+            rendered = true;
+          }
+        } catch (error: any) {
+          console.warn('Browser rendering failed, keeping the static extraction:', error.message);
+        }
+      }
+
+      const { content, document, confidence, metadata } = extracted;
       
       // Keep track of best attempt
       if (content.length > bestContent.length) {
         bestContent = content;
+        bestDocument = document;
+        bestConfidence = confidence;
         bestMetadata = metadata;
+        bestRendered = rendered;
       }
       
-      console.log(`Extracted ${content.length} characters on attempt ${attempt}`);
+      console.log(`Extracted ${content.length} characters on attempt ${attempt} (confidence ${confidence})`);
+      report({ type: 'extracted', attempt, retries: finalOptions.retries!, characters: content.length });
       
       // Success if we have reasonable content
       if (content.length >= 100) {
-        return {
+        const article = await followPages(url, extracted, finalOptions, report, rendered);
+        return remember({
           success: true,
-          content,
-          metadata
-        };
+          content: article.content,
+          document: article.document,
+          confidence: article.confidence,
+          metadata: article.metadata,
+          pages: article.pages,
+          rendered,
+          sourceType
+        });
       }
       
       // If this is the last attempt and we have some content, use it
@@ -229,19 +487,31 @@ export async function scrapeBlogText(
         return {
           success: true,
           content: bestContent,
-          metadata: bestMetadata
+          document: bestDocument,
+          confidence: bestConfidence,
+          metadata: bestMetadata,
+          rendered: bestRendered
         };
       }
       
+      if (sourceType === 'pdf' && !content) {
+        throw new Error('This PDF has no text layer (it may be a scanned document)');
+      }
       throw new Error(`Insufficient content extracted (${content.length} chars)`);
       
     } catch (error: any) {
       lastError = error;
       console.warn(`Attempt ${attempt} failed:`, error.message);
+
+      // A refused fetch will be refused again, so it isn't retried
+      if (asPolicyError(error)) {
+        break;
+      }
       
       if (attempt < finalOptions.retries!) {
-        // Wait before retry (exponential backoff)
-        const delay = Math.min(1000 * Math.pow(2, attempt - 1), 5000);
+        // Wait before retry (Retry-After or exponential backoff); the host's crawl delay applies on top
+        const delay = retryDelay(error, attempt);
+        report({ type: 'retry', attempt, retries: finalOptions.retries!, delay, error: getErrorMessage(error) });
         await new Promise(resolve => setTimeout(resolve, delay));
       }
     }
@@ -253,17 +523,71 @@ export async function scrapeBlogText(
     return {
       success: true,
       content: bestContent,
-      metadata: bestMetadata
+      document: bestDocument,
+      confidence: bestConfidence,
+      metadata: bestMetadata,
+      rendered: bestRendered
     };
   }
   
   return {
     success: false,
     error: getErrorMessage(lastError),
+    errorCode: asPolicyError(lastError)?.code,
     metadata: { url }
   };
 }
 
+// Reads an uploaded file with the same extractors as fetched pages. The file is stored under a
+// pseudo-URL made from its content hash, so uploading it again finds the same records.
+export async function scrapeFile(
+  file: UploadedFile,
+  url = contentUrl('upload', file.data, file.name)
+): Promise<ScrapingResult> {
+  try {
+    const sourceType = detectSourceType(file.type, file.name, file.data);
+    const page = sourceType === 'html'
+      ? extractPage(decodeBody(file.data, file.type).text, url, undefined)
+      : await extractSource(sourceType, file.data, url, file.type);
+
+    if (!page.content) {
+      return {
+        success: false,
+        error: sourceType === 'pdf'
+          ? 'This PDF has no text layer (it may be a scanned document)'
+          : `No text could be read from ${file.name}`,
+        metadata: { url }
+      };
+    }
+
+    return {
+      success: true,
+      content: page.content,
+      document: page.document,
+      confidence: page.confidence,
+      metadata: { ...page.metadata, title: page.metadata.title || file.name },
+      pages: 1,
+      sourceType
+    };
+  } catch (error: any) {
+    console.error(`Error reading uploaded file ${file.name}:`, error);
+    return { success: false, error: `Could not read ${file.name}: ${error.message}`, metadata: { url } };
+  }
+}
+
+// Fetches a URL with the scraper's request settings (used for feeds and sitemaps)
+export async function fetchText(url: string, options: ScrapingOptions = {}): Promise<string> {
+  if (!url || !isValidUrl(url)) {
+    throw new Error('Invalid URL provided');
+  }
+  try {
+    const page = await makeRequest(url, { ...DEFAULT_OPTIONS, ...options });
+    return typeof page.html === 'string' ? page.html : String(page.html);
+  } catch (error: any) {
+    throw asPolicyError(error) || new Error(getErrorMessage(error));
+  }
+}
+
 function isValidUrl(url: string): boolean {
   try {
     const urlObj = new URL(url);
@@ -297,10 +621,17 @@ function getErrorMessage(error: any): string {
 }
 
 // Alternative scraper for testing with local content
-export async function scrapeWithFallback(url: string): Promise<ScrapingResult> {
-  const result = await scrapeBlogText(url);
+export async function scrapeWithFallback(
+  url: string,
+  options: ScrapingOptions = {}
+): Promise<ScrapingResult> {
+  // demo:// URLs only ever have sample content
+  const result: ScrapingResult = url.startsWith('demo://')
+    ? { success: false }
+    : await scrapeBlogText(url, options);
   
-  if (!result.success) {
+  // Refusals by the fetch policy are reported as they are, never hidden behind sample content
+  if (!result.success && !result.errorCode) {
     // For demo purposes, return sample content
     console.log('Using fallback content for demo');
     return {
@@ -0,0 +1,212 @@
+// lib/siteRules.ts - Per-domain extraction rules loaded from a JSON or YAML file
+
+import fs from 'fs';
+import path from 'path';
+import * as cheerio from 'cheerio';
+import YAML from 'yaml';
+import { getDomain } from '@/lib/url';
+
+export interface SiteRule {
+  // Applies to this host and its subdomains ("www." is ignored)
+  domain: string;
+  // Element holding the article body; used instead of content scoring when it matches
+  content?: string;
+  // Extra selectors to remove before extracting (ads, share bars, newsletter boxes)
+  noise?: string[];
+  // Element with the article title
+  title?: string;
+  // Element with the publish date; a `datetime` or `content` attribute is preferred over its text
+  date?: string;
+  // Link to the next page of a multi-page article
+  next?: string;
+  // Always load pages of this site in the headless browser (see lib/renderer.ts)
+  render?: boolean;
+}
+
+export type SiteRuleFormat = 'json' | 'yaml';
+
+export interface RuleMatches {
+  content?: number;
+  title?: number;
+  date?: number;
+  next?: number;
+  noise?: Record<string, number>;
+}
+
+// Thrown when a rules file or a rule sent to the API is invalid; lists every problem found
+export class SiteRuleError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid site rules: ${problems.join('; ')}`);
+    this.name = 'SiteRuleError';
+  }
+}
+
+const SELECTOR_FIELDS: (keyof SiteRule)[] = ['content', 'title', 'date', 'next'];
+const KNOWN_FIELDS = ['domain', 'noise', 'render'].concat(SELECTOR_FIELDS);
+
+export function getRulesFile(): string {
+  return path.resolve(process.env.SITE_RULES_FILE || 'config/site-rules.json');
+}
+
+// Compiling the selector against an empty document is enough to catch syntax errors
+function checkSelector(selector: unknown, field: string, problems: string[]): void {
+  if (typeof selector !== 'string' || !selector.trim()) {
+    problems.push(`${field} must be a non-empty selector string`);
+    return;
+  }
+  try {
+    cheerio.load('<div></div>')(selector);
+  } catch (error: any) {
+    problems.push(`${field} "${selector}" is not a valid selector (${error.message})`);
+  }
+}
+
+export function validateRule(input: unknown, label = 'rule'): { rule?: SiteRule; problems: string[] } {
+  const problems: string[] = [];
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { problems: [`${label} must be an object`] };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const domain = typeof raw.domain === 'string' ? raw.domain.trim().toLowerCase().replace(/^www\./, '') : '';
+  if (!domain || !/^[a-z0-9.-]+\.[a-z]{2,}$/.test(domain)) {
+    problems.push(`${label}.domain must be a host name such as "example.com"`);
+  }
+
+  Object.keys(raw).forEach(key => {
+    if (KNOWN_FIELDS.indexOf(key) === -1) {
+      problems.push(`${label}.${key} is not a known field (expected ${KNOWN_FIELDS.join(', ')})`);
+    }
+  });
+
+  SELECTOR_FIELDS.forEach(field => {
+    if (raw[field] !== undefined) {
+      checkSelector(raw[field], `${label}.${field}`, problems);
+    }
+  });
+
+  if (raw.noise !== undefined) {
+    if (!Array.isArray(raw.noise)) {
+      problems.push(`${label}.noise must be an array of selectors`);
+    } else {
+      raw.noise.forEach((selector, index) => checkSelector(selector, `${label}.noise[${index}]`, problems));
+    }
+  }
+
+  if (raw.render !== undefined && typeof raw.render !== 'boolean') {
+    problems.push(`${label}.render must be true or false`);
+  }
+
+  if (problems.length > 0) {
+    return { problems };
+  }
+
+  const rule: SiteRule = { domain };
+  SELECTOR_FIELDS.forEach(field => {
+    if (typeof raw[field] === 'string') {
+      (rule as any)[field] = (raw[field] as string).trim();
+    }
+  });
+  if (Array.isArray(raw.noise)) {
+    rule.noise = (raw.noise as string[]).map(selector => selector.trim());
+  }
+  if (typeof raw.render === 'boolean') {
+    rule.render = raw.render;
+  }
+  return { rule, problems };
+}
+
+// Accepts `{ rules: [...] }` or a bare array of rules
+export function validateRules(input: unknown): SiteRule[] {
+  const list = Array.isArray(input) ? input : (input as { rules?: unknown })?.rules;
+  if (!Array.isArray(list)) {
+    throw new SiteRuleError(['expected an array of rules or an object with a "rules" array']);
+  }
+
+  const problems: string[] = [];
+  const rules: SiteRule[] = [];
+  const seen = new Set<string>();
+
+  list.forEach((item, index) => {
+    const result = validateRule(item, `rules[${index}]`);
+    problems.push(...result.problems);
+    if (result.rule) {
+      if (seen.has(result.rule.domain)) {
+        problems.push(`rules[${index}].domain "${result.rule.domain}" is listed more than once`);
+      }
+      seen.add(result.rule.domain);
+      rules.push(result.rule);
+    }
+  });
+
+  if (problems.length > 0) {
+    throw new SiteRuleError(problems);
+  }
+  return rules;
+}
+
+export function parseRules(text: string, format: SiteRuleFormat): SiteRule[] {
+  let data: unknown;
+  try {
+    data = format === 'yaml' ? YAML.parse(text) : JSON.parse(text);
+  } catch (error: any) {
+    throw new SiteRuleError([`could not parse ${format.toUpperCase()}: ${error.message}`]);
+  }
+  return validateRules(data);
+}
+
+export function loadRulesFile(file = getRulesFile()): SiteRule[] {
+  if (!fs.existsSync(file)) {
+    return [];
+  }
+  const format: SiteRuleFormat = /\.ya?ml$/i.test(file) ? 'yaml' : 'json';
+  return parseRules(fs.readFileSync(file, 'utf8'), format);
+}
+
+let cachedRules: SiteRule[] | null = null;
+
+// Rules from the configured file, read once per process (see reloadSiteRules)
+export function getSiteRules(): SiteRule[] {
+  if (!cachedRules) {
+    cachedRules = loadRulesFile();
+    console.log(`Loaded ${cachedRules.length} site rule(s) from ${getRulesFile()}`);
+  }
+  return cachedRules;
+}
+
+// Reads the file again; if it is now invalid the error is thrown and the old rules stay active
+export function reloadSiteRules(): SiteRule[] {
+  cachedRules = loadRulesFile();
+  console.log(`Reloaded ${cachedRules.length} site rule(s) from ${getRulesFile()}`);
+  return cachedRules;
+}
+
+// The rule for the URL's host, or for the closest parent domain that has one
+export function findSiteRule(url: string, rules: SiteRule[] = getSiteRules()): SiteRule | undefined {
+  const host = getDomain(url);
+  if (!host) {
+    return undefined;
+  }
+  return rules
+    .filter(rule => host === rule.domain || host.endsWith('.' + rule.domain))
+    .sort((a, b) => b.domain.length - a.domain.length)[0];
+}
+
+// How many elements each of the rule's selectors matches in the page, to debug a rule
+export function inspectRule(html: string, rule: SiteRule): RuleMatches {
+  const $ = cheerio.load(html);
+  const matches: RuleMatches = {};
+  SELECTOR_FIELDS.forEach(field => {
+    const selector = rule[field];
+    if (typeof selector === 'string') {
+      (matches as any)[field] = $(selector).length;
+    }
+  });
+  if (rule.noise) {
+    matches.noise = {};
+    rule.noise.forEach(selector => {
+      matches.noise![selector] = $(selector).length;
+    });
+  }
+  return matches;
+}
@@ -0,0 +1,416 @@
+// lib/sources.ts - Content-type detection and extractors for PDF, Markdown and plain-text sources
+
+import { createHash } from 'crypto';
+import YAML from 'yaml';
+import { ArticleImage, ArticleLink, blocksToMarkdown, blocksToText, ContentBlock, StructuredDocument } from '@/lib/extract';
+import { ArticleMetadata, parseDate, withReadingStats } from '@/lib/metadata';
+import { decodeBody } from '@/lib/charset';
+import type { ExtractedPage } from '@/lib/scraper';
+
+export type SourceType = 'html' | 'pdf' | 'markdown' | 'text';
+
+export interface UploadedFile {
+  name: string;
+  // MIME type reported by the browser, if any
+  type?: string;
+  data: Uint8Array;
+}
+
+// Files a user can upload from the page, by extension
+export const UPLOAD_EXTENSIONS = ['.pdf', '.md', '.markdown', '.txt', '.html', '.htm'];
+export const MAX_UPLOAD_BYTES = Number(process.env.MAX_UPLOAD_BYTES) || 10 * 1024 * 1024;
+
+function extension(name: string): string {
+  let path = name;
+  try {
+    path = new URL(name).pathname;
+  } catch {
+    // Plain file names are used as they are
+  }
+  const match = /\.([a-z0-9]+)$/i.exec(path);
+  return match ? match[1].toLowerCase() : '';
+}
+
+function startsWith(body: Uint8Array, signature: string): boolean {
+  for (let i = 0; i < signature.length; i++) {
+    if (body[i] !== signature.charCodeAt(i)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Decides how to read a response or file. The PDF signature wins over everything, then the
+// declared content type, then the extension, then a look at the first bytes.
+export function detectSourceType(contentType: string | undefined, name: string, body: Uint8Array): SourceType {
+  if (startsWith(body, '%PDF-')) {
+    return 'pdf';
+  }
+
+  const type = (contentType || '').split(';')[0].trim().toLowerCase();
+  const ext = extension(name);
+  if (type === 'application/pdf') {
+    return 'pdf';
+  }
+  if (type === 'text/markdown' || type === 'text/x-markdown') {
+    return 'markdown';
+  }
+  // Raw Git hosts serve Markdown files as text/plain
+  if (type === 'text/plain') {
+    return ext === 'md' || ext === 'markdown' ? 'markdown' : 'text';
+  }
+  if (type === 'text/html' || type === 'application/xhtml+xml') {
+    return 'html';
+  }
+
+  if (ext === 'pdf') {
+    return 'pdf';
+  }
+  if (ext === 'md' || ext === 'markdown') {
+    return 'markdown';
+  }
+  if (ext === 'txt') {
+    return 'text';
+  }
+
+  const head = Buffer.from(body.subarray(0, 512)).toString('utf8').replace(/^\uFEFF?\s*/, '');
+  return /^</.test(head) || /<html|<body|<p[\s>]/i.test(head) ? 'html' : 'text';
+}
+
+// Stable pseudo-URL for content that has no address of its own, so repeats map to the same records
+export function contentUrl(kind: 'upload' | 'paste', body: Uint8Array | string, name?: string): string {
+  const hash = createHash('sha256').update(body).digest('hex').slice(0, 16);
+  return `${kind}://${hash}${name ? '/' + encodeURIComponent(name) : ''}`;
+}
+
+// 'upload' or 'paste' for URLs made by contentUrl
+export function contentKind(url: string): 'upload' | 'paste' | undefined {
+  const match = /^(upload|paste):\/\//.exec(url);
+  return match ? (match[1] as 'upload' | 'paste') : undefined;
+}
+
+function toDocument(blocks: ContentBlock[], links: ArticleLink[] = [], images: ArticleImage[] = []): StructuredDocument {
+  return { blocks, links, images, markdown: blocksToMarkdown(blocks) };
+}
+
+function toPage(document: StructuredDocument, metadata: ArticleMetadata): ExtractedPage {
+  const content = blocksToText(document.blocks);
+  // The whole source is the article, so there is no content guess to be unsure about
+  return { content, document, confidence: content ? 1 : 0, metadata: withReadingStats(metadata, content) };
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// Paragraphs are separated by blank lines; hard-wrapped lines inside one are joined
+export function extractPlainText(text: string, url: string): ExtractedPage {
+  const paragraphs = text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map(collapse)
+    .filter(Boolean);
+  const blocks: ContentBlock[] = paragraphs.map(paragraph => ({ type: 'paragraph' as const, text: paragraph }));
+
+  const first = paragraphs[0];
+  const title = first && first.length <= 120 && !/[.!?]$/.test(first) ? first : undefined;
+  return toPage(toDocument(blocks), title ? { url, title } : { url });
+}
+
+function resolveLink(href: string, baseUrl: string): string | null {
+  try {
+    const url = new URL(href, baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+const LIST_ITEM = /^\s{0,3}([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const FENCE = /^\s{0,3}(`{3,}|~{3,})\s*([\w+#-]*)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+
+// Front matter (`---` YAML at the top) often carries the title, author and date
+function readFrontMatter(markdown: string): { body: string; data: Record<string, any> } {
+  const match = /^---\n([\s\S]*?)\n(?:---|\.\.\.)\n/.exec(markdown);
+  if (!match) {
+    return { body: markdown, data: {} };
+  }
+  try {
+    const data = YAML.parse(match[1]);
+    return { body: markdown.slice(match[0].length), data: data && typeof data === 'object' ? data : {} };
+  } catch {
+    return { body: markdown, data: {} };
+  }
+}
+
+export function extractMarkdown(source: string, url: string): ExtractedPage {
+  const { body, data } = readFrontMatter(source.replace(/\r\n?/g, '\n').replace(/^\uFEFF/, ''));
+  const blocks: ContentBlock[] = [];
+  const links: ArticleLink[] = [];
+  const images: ArticleImage[] = [];
+  const seenLinks = new Set<string>();
+  const host = (() => {
+    try {
+      return new URL(url).hostname;
+    } catch {
+      return '';
+    }
+  })();
+
+  // Inline Markdown to plain text, collecting links and images on the way
+  const inline = (text: string): string => collapse(text
+    .replace(/!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g, (_, alt: string, src: string) => {
+      const resolved = resolveLink(src, url);
+      if (resolved && !images.some(image => image.src === resolved)) {
+        images.push(alt ? { src: resolved, alt } : { src: resolved });
+      }
+      return '';
+    })
+    .replace(/\[([^\]]+)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g, (_, label: string, href: string) => {
+      const resolved = resolveLink(href, url);
+      if (resolved && !seenLinks.has(resolved)) {
+        seenLinks.add(resolved);
+        links.push({ url: resolved, text: label, external: new URL(resolved).hostname !== host });
+      }
+      return label;
+    })
+    .replace(/<[^>]+>/g, '')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(^|\W)[*_](\S(?:.*?\S)?)[*_](?=\W|$)/g, '$1$2')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/\\([\\`*_{}[\]()#+\-.!>])/g, '$1'));
+
+  const lines = body.split('\n');
+  let paragraph: string[] = [];
+  let quote: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      const text = inline(paragraph.join(' '));
+      if (text) {
+        blocks.push({ type: 'paragraph', text });
+      }
+      paragraph = [];
+    }
+    if (quote.length > 0) {
+      const text = inline(quote.join(' '));
+      if (text) {
+        blocks.push({ type: 'quote', text });
+      }
+      quote = [];
+    }
+    if (list) {
+      const items = list.items.map(inline).filter(Boolean);
+      if (items.length > 0) {
+        blocks.push({ type: 'list', ordered: list.ordered, items });
+      }
+      list = null;
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fence = FENCE.exec(line);
+    if (fence) {
+      flush();
+      const code: string[] = [];
+      for (i++; i < lines.length && !lines[i].trim().startsWith(fence[1]); i++) {
+        code.push(lines[i]);
+      }
+      blocks.push({ type: 'code', text: code.join('\n'), language: fence[2] || undefined });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      flush();
+      blocks.push({ type: 'heading', level: heading[1].length, text: inline(heading[2]) });
+      continue;
+    }
+
+    // Setext headings underline the paragraph above them
+    if (paragraph.length > 0 && /^\s{0,3}(=+|-+)\s*$/.test(line)) {
+      const text = inline(paragraph.join(' '));
+      paragraph = [];
+      flush();
+      blocks.push({ type: 'heading', level: line.trim()[0] === '=' ? 1 : 2, text });
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      flush();
+      continue;
+    }
+
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      const ordered = /\d/.test(item[1]);
+      if (!list || list.ordered !== ordered) {
+        flush();
+        list = { ordered, items: [] };
+      }
+      list.items.push(item[2]);
+      continue;
+    }
+
+    if (/^\s{0,3}>/.test(line)) {
+      if (quote.length === 0) {
+        flush();
+      }
+      quote.push(line.replace(/^\s{0,3}>\s?/, ''));
+      continue;
+    }
+
+    // Indented lines continue the current list item
+    if (list && /^\s+\S/.test(line)) {
+      list.items[list.items.length - 1] += ' ' + line.trim();
+      continue;
+    }
+
+    if (list || quote.length > 0) {
+      flush();
+    }
+    paragraph.push(line.trim());
+  }
+  flush();
+
+  const firstHeading = blocks.find(block => block.type === 'heading');
+  const metadata: ArticleMetadata = { url };
+  const title = typeof data.title === 'string' ? data.title : firstHeading?.type === 'heading' ? firstHeading.text : undefined;
+  const author = Array.isArray(data.author) ? data.author.join(', ') : data.author || data.authors;
+  const date = data.date instanceof Date ? data.date.toISOString() : parseDate(data.date ? String(data.date) : undefined);
+  if (title) {
+    metadata.title = collapse(title);
+  }
+  if (typeof data.description === 'string') {
+    metadata.description = collapse(data.description);
+  }
+  if (typeof author === 'string') {
+    metadata.author = collapse(author);
+  }
+  if (date) {
+    metadata.publishedAt = date;
+  }
+  if (typeof data.lang === 'string' || typeof data.language === 'string') {
+    metadata.language = data.lang || data.language;
+  }
+
+  return toPage(toDocument(blocks, links, images), metadata);
+}
+
+// Running headers, footers and page numbers sit in the first or last lines of a page
+const EDGE_LINES = 2;
+
+function pageLines(pageText: string): string[] {
+  return pageText.split('\n').map(collapse).filter(Boolean);
+}
+
+function isEdge(index: number, count: number): boolean {
+  return index < EDGE_LINES || index >= count - EDGE_LINES;
+}
+
+// Edge lines that come back on most pages are headers or footers, not content
+function repeatedLines(pages: string[]): Set<string> {
+  const counts = new Map<string, number>();
+  pages.forEach(page => {
+    const lines = pageLines(page);
+    new Set(lines.filter((_, index) => isEdge(index, lines.length))).forEach(line => {
+      counts.set(line, (counts.get(line) || 0) + 1);
+    });
+  });
+  const repeated = new Set<string>();
+  if (pages.length >= 3) {
+    counts.forEach((count, line) => {
+      if (count >= Math.ceil(pages.length * 0.6)) {
+        repeated.add(line);
+      }
+    });
+  }
+  return repeated;
+}
+
+// Turns one PDF page's text lines into paragraphs. A line that ends a sentence well short of
+// the page's usual line length ends its paragraph; words hyphenated across lines are rejoined.
+function pdfParagraphs(pageText: string, repeated: Set<string>): string[] {
+  const all = pageLines(pageText);
+  const lines = all.filter((line, index) =>
+    !(isEdge(index, all.length) && (repeated.has(line) || /^\d{1,4}$/.test(line)))
+  );
+  const width = lines.reduce((max, line) => Math.max(max, line.length), 0);
+  const paragraphs: string[] = [];
+  let current = '';
+
+  lines.forEach(line => {
+    current = /[a-z]-$/.test(current) ? current.slice(0, -1) + line : current ? `${current} ${line}` : line;
+    if (/[.!?:"”)]$/.test(line) && line.length < width * 0.85) {
+      paragraphs.push(current);
+      current = '';
+    }
+  });
+  if (current) {
+    paragraphs.push(current);
+  }
+  return paragraphs;
+}
+
+// Reads the PDF's text layer; scanned PDFs without one produce no content
+export async function extractPdf(data: Uint8Array, url: string): Promise<ExtractedPage> {
+  const { getDocumentProxy, extractText, getMeta } = await import('unpdf');
+  // pdf.js takes ownership of the buffer it is given, so it gets a copy
+  const pdf = await getDocumentProxy(new Uint8Array(data));
+  try {
+    const { text } = await extractText(pdf, { mergePages: false });
+    const repeated = repeatedLines(text);
+    const blocks: ContentBlock[] = [];
+    text.forEach(page => {
+      pdfParagraphs(page, repeated).forEach(paragraph => blocks.push({ type: 'paragraph', text: paragraph }));
+    });
+
+    const metadata: ArticleMetadata = { url };
+    const { info } = await getMeta(pdf, { parseDates: true }).catch(() => ({ info: {} as Record<string, any> }));
+    if (typeof info.Title === 'string' && collapse(info.Title)) {
+      metadata.title = collapse(info.Title);
+    }
+    if (typeof info.Author === 'string' && collapse(info.Author)) {
+      metadata.author = collapse(info.Author);
+    }
+    if (typeof info.Subject === 'string' && collapse(info.Subject)) {
+      metadata.description = collapse(info.Subject);
+    }
+    if (info.CreationDate instanceof Date && !isNaN(info.CreationDate.getTime())) {
+      metadata.publishedAt = info.CreationDate.toISOString();
+    }
+    if (info.ModDate instanceof Date && !isNaN(info.ModDate.getTime())) {
+      metadata.modifiedAt = info.ModDate.toISOString();
+    }
+    if (typeof info.Language === 'string' && info.Language) {
+      metadata.language = info.Language;
+    }
+
+    return toPage(toDocument(blocks), metadata);
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+// Extracts a non-HTML source; HTML goes through the article extractor in lib/scraper.ts
+export async function extractSource(
+  type: Exclude<SourceType, 'html'>,
+  body: Uint8Array,
+  url: string,
+  contentType?: string
+): Promise<ExtractedPage> {
+  if (type === 'pdf') {
+    return extractPdf(body, url);
+  }
+  const { text } = decodeBody(body, contentType, false);
+  return type === 'markdown' ? extractMarkdown(text, url) : extractPlainText(text, url);
+}
@@ -0,0 +1,99 @@
+// lib/storage.ts - Storage abstraction shared by the MongoDB and Supabase modules
+
+import { createMemoryDriver } from '@/lib/drivers/memory';
+import { createFileDriver } from '@/lib/drivers/file';
+import { createMongoDriver } from '@/lib/drivers/mongo';
+import { createSupabaseDriver } from '@/lib/drivers/supabase';
+
+export type WithId<T> = T & { id: string };
+
+export type DriverName = 'memory' | 'file' | 'mongo' | 'supabase';
+
+export interface QueryOptions<T extends object> {
+  filter?: Partial<T>;
+  // Inclusive date range on a single field
+  range?: { field: keyof T & string; from?: Date; to?: Date };
+  sort?: { field: keyof T & string; direction: 'asc' | 'desc' };
+  skip?: number;
+  limit?: number;
+}
+
+export interface QueryResult<T extends object> {
+  items: WithId<T>[];
+  total: number;
+}
+
+// Minimal repository contract every storage driver has to provide per collection
+export interface Repository<T extends object> {
+  insert(doc: T): Promise<WithId<T>>;
+  findById(id: string): Promise<WithId<T> | null>;
+  findOne(filter: Partial<T>): Promise<WithId<T> | null>;
+  findMany(filter?: Partial<T>): Promise<WithId<T>[]>;
+  query(options: QueryOptions<T>): Promise<QueryResult<T>>;
+  // Applies a partial update and returns the updated document, or null if it does not exist
+  updateById(id: string, patch: Partial<T>): Promise<WithId<T> | null>;
+  deleteById(id: string): Promise<boolean>;
+}
+
+export interface StorageDriver {
+  name: DriverName;
+  collection<T extends object>(name: string): Repository<T>;
+}
+
+export interface StorageConfig {
+  driver: DriverName;
+  filePath: string;
+  mongoUri?: string;
+  mongoDb: string;
+  supabaseUrl?: string;
+  supabaseKey?: string;
+}
+
+export function getStorageConfig(): StorageConfig {
+  return {
+    driver: (process.env.STORAGE_DRIVER as DriverName) || 'file',
+    filePath: process.env.STORAGE_FILE || '.data/storage.json',
+    mongoUri: process.env.MONGODB_URI,
+    mongoDb: process.env.MONGODB_DB || 'blog-summarizer',
+    supabaseUrl: process.env.SUPABASE_URL,
+    supabaseKey: process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_ANON_KEY
+  };
+}
+
+export function createStorageDriver(config: StorageConfig): StorageDriver {
+  switch (config.driver) {
+    case 'memory':
+      return createMemoryDriver();
+    case 'file':
+      return createFileDriver(config.filePath);
+    case 'mongo':
+      if (!config.mongoUri) {
+        throw new Error('MONGODB_URI must be set when STORAGE_DRIVER=mongo');
+      }
+      return createMongoDriver(config.mongoUri, config.mongoDb);
+    case 'supabase':
+      if (!config.supabaseUrl || !config.supabaseKey) {
+        throw new Error('SUPABASE_URL and SUPABASE_ANON_KEY must be set when STORAGE_DRIVER=supabase');
+      }
+      return createSupabaseDriver(config.supabaseUrl, config.supabaseKey);
+    default:
+      throw new Error(`Unknown storage driver: ${config.driver}`);
+  }
+}
+
+// Kept on globalThis so every route and hot reload in the same process share one driver
+const globalStorage = globalThis as typeof globalThis & { __storageDriver?: StorageDriver | null };
+
+// Lazily creates the driver selected by config and reuses it for the lifetime of the process
+export function getStorage(): StorageDriver {
+  if (!globalStorage.__storageDriver) {
+    globalStorage.__storageDriver = createStorageDriver(getStorageConfig());
+    console.log(`Using "${globalStorage.__storageDriver.name}" storage driver`);
+  }
+  return globalStorage.__storageDriver;
+}
+
+// Lets scripts and local tests swap in another driver (e.g. memory)
+export function setStorage(driver: StorageDriver | null): void {
+  globalStorage.__storageDriver = driver;
+}
@@ -1,35 +1,202 @@
-// lib/summariser.ts
+// lib/summariser.ts - Extractive summarisers that pick the most representative sentences
+
+export type SummariserStrategy = 'keyword' | 'frequency' | 'textrank';
+
+export interface SummariserOptions {
+  // Number of sentences to keep; takes precedence over `ratio`
+  sentences?: number;
+  // Fraction of the document's sentences to keep (0-1)
+  ratio?: number;
+}
+
+export interface SummariseOptions extends SummariserOptions {
+  strategy?: SummariserStrategy;
+}
+
+export interface Summariser {
+  name: SummariserStrategy;
+  label: string;
+  // One score per sentence; higher scores are kept first
+  score(sentences: string[]): number[];
+}
+
+export const DEFAULT_STRATEGY: SummariserStrategy = 'keyword';
+export const DEFAULT_SENTENCE_COUNT = 2;
+export const MAX_SENTENCE_COUNT = 50;
+
 const keywords = ['important', 'key', 'main', 'conclusion', 'summary', 'takeaway', 'result', 'finding', 'analysis', 'research'];
 
-export const summarise = (text: string): string => {
-  if (!text || text.trim().length === 0) {
-    return '';
-  }
+const stopWords = new Set([
+  'a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'because', 'been',
+  'but', 'by', 'can', 'could', 'did', 'do', 'does', 'for', 'from', 'had', 'has', 'have', 'he', 'her',
+  'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'just', 'more', 'most', 'my', 'no', 'not',
+  'of', 'on', 'one', 'or', 'our', 'out', 'she', 'so', 'some', 'than', 'that', 'the', 'their', 'them',
+  'then', 'there', 'these', 'they', 'this', 'to', 'up', 'us', 'was', 'we', 'were', 'what', 'when',
+  'which', 'who', 'will', 'with', 'would', 'you', 'your'
+]);
 
-  // Clean and split text into sentences
-  const sentences = text
-    .split(/[.!?]+/)
-    .map(s => s.trim())
-    .filter(s => s.length > 10); // Filter out very short sentences
-
-  // Score sentences based on keyword presence
-  const scoredSentences = sentences.map(sentence => {
-    const score = keywords.reduce((acc, keyword) => {
-      return acc + (sentence.toLowerCase().includes(keyword) ? 1 : 0);
-    }, 0);
-    return { sentence, score };
+// Splits text into paragraphs at blank lines. Markdown headings and fenced code are
+// dropped, list items become paragraphs of their own and quote markers are removed.
+export function splitBlocks(text: string): string[] {
+  const blocks: string[] = [];
+  text
+    .replace(/```[\s\S]*?(?:```|$)/g, '\n\n')
+    .split(/\n\s*\n/)
+    .forEach(block => {
+      const trimmed = block.trim();
+      if (!trimmed || /^#{1,6}\s/.test(trimmed)) {
+        return;
+      }
+      if (/^(?:[-*•]|\d+\.)\s/.test(trimmed)) {
+        trimmed.split('\n').forEach(item => blocks.push(item.replace(/^\s*(?:[-*•]|\d+\.)\s+/, '')));
+      } else {
+        blocks.push(trimmed.replace(/^>\s?/gm, ''));
+      }
+    });
+  return blocks;
+}
+
+// Splits text into sentences, keeping their closing punctuation. Sentences never run
+// across paragraph, list item or section boundaries.
+export function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  splitBlocks(text).forEach(block => {
+    (block.match(/[^.!?]+(?:[.!?]+["')\]]*|$)/g) || []).forEach(sentence => {
+      sentences.push(sentence.replace(/\s+/g, ' ').trim());
+    });
   });
+  return sentences.filter(s => s.length > 10); // Filter out very short sentences
+}
+
+function tokenize(sentence: string): string[] {
+  return (sentence.toLowerCase().match(/[a-z0-9']+/g) || [])
+    .filter(word => word.length > 1 && !stopWords.has(word));
+}
+
+// Scores sentences by how many of the fixed summary keywords they contain
+const keywordSummariser: Summariser = {
+  name: 'keyword',
+  label: 'Keyword',
+  score: sentences => sentences.map(sentence => {
+    const lower = sentence.toLowerCase();
+    return keywords.reduce((acc, keyword) => acc + (lower.includes(keyword) ? 1 : 0), 0);
+  })
+};
+
+// Scores sentences by the average TF-IDF weight of their words, treating each sentence as a document
+const frequencySummariser: Summariser = {
+  name: 'frequency',
+  label: 'Word frequency (TF-IDF)',
+  score: sentences => {
+    const tokenized = sentences.map(tokenize);
+    const termFrequency: Record<string, number> = {};
+    const documentFrequency: Record<string, number> = {};
 
-  // Sort by score and take top sentences
-  const topSentences = scoredSentences
-    .sort((a, b) => b.score - a.score)
-    .slice(0, 2)
-    .map(item => item.sentence);
+    tokenized.forEach(words => {
+      words.forEach(word => {
+        termFrequency[word] = (termFrequency[word] || 0) + 1;
+      });
+      new Set(words).forEach(word => {
+        documentFrequency[word] = (documentFrequency[word] || 0) + 1;
+      });
+    });
 
-  if (topSentences.length > 0) {
-    return topSentences.join('. ') + '.';
+    return tokenized.map(words => {
+      if (words.length === 0) {
+        return 0;
+      }
+      const total = words.reduce((acc, word) => {
+        const idf = Math.log(1 + sentences.length / documentFrequency[word]);
+        return acc + termFrequency[word] * idf;
+      }, 0);
+      return total / words.length;
+    });
   }
+};
+
+// Scores sentences by centrality in a word-overlap similarity graph (TextRank)
+const textRankSummariser: Summariser = {
+  name: 'textrank',
+  label: 'TextRank',
+  score: sentences => {
+    const damping = 0.85;
+    const iterations = 30;
+    const wordSets = sentences.map(sentence => new Set(tokenize(sentence)));
+    const count = sentences.length;
+
+    const similarity = wordSets.map((a, i) => wordSets.map((b, j) => {
+      if (i === j || a.size < 2 || b.size < 2) {
+        return 0;
+      }
+      let overlap = 0;
+      a.forEach(word => {
+        if (b.has(word)) {
+          overlap++;
+        }
+      });
+      return overlap / (Math.log(a.size) + Math.log(b.size));
+    }));
+
+    const outgoing = similarity.map(row => row.reduce((acc, value) => acc + value, 0));
+    let scores: number[] = sentences.map(() => 1);
+
+    for (let iteration = 0; iteration < iterations; iteration++) {
+      scores = scores.map((_, i) => {
+        let rank = 0;
+        for (let j = 0; j < count; j++) {
+          if (outgoing[j] > 0) {
+            rank += (similarity[j][i] / outgoing[j]) * scores[j];
+          }
+        }
+        return (1 - damping) + damping * rank;
+      });
+    }
+
+    return scores;
+  }
+};
+
+export const summarisers: Record<SummariserStrategy, Summariser> = {
+  keyword: keywordSummariser,
+  frequency: frequencySummariser,
+  textrank: textRankSummariser
+};
+
+export function isSummariserStrategy(value: unknown): value is SummariserStrategy {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(summarisers, value);
+}
+
+// Resolves how many sentences to keep from the options and the document length
+export function resolveSentenceCount(total: number, options: SummariserOptions = {}): number {
+  let count = DEFAULT_SENTENCE_COUNT;
+  if (options.sentences !== undefined && options.sentences > 0) {
+    count = Math.floor(options.sentences);
+  } else if (options.ratio !== undefined && options.ratio > 0) {
+    count = Math.ceil(total * Math.min(options.ratio, 1));
+  }
+  return Math.max(1, Math.min(count, MAX_SENTENCE_COUNT, total));
+}
+
+export const summarise = (text: string, options: SummariseOptions = {}): string => {
+  if (!text || text.trim().length === 0) {
+    return '';
+  }
+
+  const sentences = splitSentences(text);
+  if (sentences.length === 0) {
+    return '';
+  }
+
+  const summariser = summarisers[options.strategy || DEFAULT_STRATEGY];
+  const scores = summariser.score(sentences);
+  const count = resolveSentenceCount(sentences.length, options);
 
-  // Fallback to first 2 sentences if no keywords found
-  return sentences.slice(0, 2).join('. ') + '.';
+  // Take the top scoring sentences (earlier ones win ties), then restore document order
+  return sentences
+    .map((sentence, index) => ({ sentence, index, score: scores[index] }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, count)
+    .sort((a, b) => a.index - b.index)
+    .map(item => /[.!?]["')\]]*$/.test(item.sentence) ? item.sentence : item.sentence + '.')
+    .join(' ');
 };
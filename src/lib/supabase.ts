@@ -1,36 +1,45 @@
-interface SupabaseData {
+import { getStorage, Repository, WithId } from '@/lib/storage';
+import type { Translations } from '@/lib/mongodb';
+
+export interface SupabaseData {
   url: string;
   full_text: string;
   summary: string;
-  translation: string;
+  // jsonb column keyed by language code
+  translations: Translations;
   created_at: string;
 }
 
-// Mock Supabase functions (replace with actual Supabase implementation)
+export const SUPABASE_TABLE = 'blog_summaries';
+
+export function supabaseRepository(): Repository<SupabaseData> {
+  return getStorage().collection<SupabaseData>(SUPABASE_TABLE);
+}
+
 export async function saveToSupabase(
   url: string, 
   fullText: string, 
   summary: string, 
-  translation: string
-): Promise<void> {
+  translations: Translations
+): Promise<WithId<SupabaseData>> {
   try {
-    // Mock implementation
     const data: SupabaseData = {
       url,
       full_text: fullText,
       summary,
-      translation,
+      translations,
       created_at: new Date().toISOString()
     };
-    
-    console.log('Saving to Supabase:', data);
-    
-    // Simulate database operation
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
-    console.log('Data saved to Supabase successfully');
+
+    const saved = await supabaseRepository().insert(data);
+    console.log('Data saved to Supabase successfully:', { id: saved.id, url });
+    return saved;
   } catch (error) {
     console.error('Error saving to Supabase:', error);
     throw new Error('Failed to save to Supabase');
   }
-}
\ No newline at end of file
+}
+
+export async function getFromSupabase(url: string): Promise<WithId<SupabaseData>[]> {
+  return supabaseRepository().findMany({ url });
+}
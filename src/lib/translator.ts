@@ -1,184 +1,257 @@
-interface TranslationMap {
-  [key: string]: string;
+// lib/translator.ts - Translation providers for the summary
+
+import { builtinGlossary, CompiledGlossary, normaliseTerm } from '@/lib/dictionaries';
+import { LANGUAGES, LanguageCode } from '@/lib/languages';
+
+export type TranslatorName = 'dictionary' | 'libretranslate' | 'openai';
+
+export interface TranslationResult {
+  text: string;
+  language: LanguageCode;
+  provider: TranslatorName;
+  // Fraction (0-1) of the source words that no longer appear untranslated in the output
+  coverage: number;
+  // Set when the configured provider failed and the dictionary was used instead
+  fallbackReason?: string;
+}
+
+export interface Translator {
+  name: TranslatorName;
+  translate(text: string, language: LanguageCode): Promise<TranslationResult>;
+}
+
+// Supplies the glossary used by the dictionary translator (built-in lists by default)
+export type GlossaryLoader = (language: LanguageCode) => Promise<CompiledGlossary>;
+
+const loadBuiltinGlossary: GlossaryLoader = async language => builtinGlossary(language);
+
+export interface TranslatorConfig {
+  provider: TranslatorName;
+  endpoint?: string;
+  apiKey?: string;
+  model: string;
+  timeout: number;
 }
 
-const translations: TranslationMap = {
-  // Startup & Demo Day terms
-  'creating': 'تخلیق کرنا',
-  'effective': 'موثر',
-  'demo': 'ڈیمو',
-  'day': 'دن',
-  'presentation': 'پیشکش',
-  'has': 'ہے',
-  'become': 'بن چکا ہے',
-  'an': 'ایک',
-  'important': 'اہم',
-  'part': 'حصہ',
-  'of': 'کا',
-  'participating': 'شرکت کرنا',
-  'in': 'میں',
-  'yc': 'وائی سی',
-  'not': 'نہیں',
-  'just': 'صرف',
-  'due': 'وجہ سے',
-  'to': 'کو',
-  'the': 'دی',
-  'but': 'لیکن',
-  'because': 'کیونکہ',
-  'very': 'بہت',
-  'process': 'عمل',
-  'fashioning': 'تیار کرنا',
-  'valuable': 'قابل قدر',
-  'best': 'بہترین',
-  'technique': 'طریقہ',
-  'achieve': 'حاصل کرنا',
-  'these': 'یہ',
-  'qualities': 'خصوصیات',
-  'is': 'ہے',
-  'repetition': 'تکرار',
-  'critique': 'تنقید',
-  'and': 'اور',
-  'editing': 'ترمیم',
-  'including': 'بشمول',
-  'importantly': 'اہم طور پر',
-  'selective': 'منتخب',
-  'removal': 'ہٹانا',
-  'vertebrae': 'ریڑھ کی ہڈی',
-  'most': 'زیادہ تر',
-  'listeners': 'سننے والے',
-  'will': 'کریں گے',
-  'remember': 'یاد رکھنا',
-  'at': 'پر',
-  '3': 'تین',
-  'or': 'یا',
-  '4': 'چار',
-  'key': 'اہم',
-  'points': 'نکات',
-  'from': 'سے',
-  'they': 'وہ',
-  'heard': 'سنا',
-  'especially': 'خاص طور پر',
-  'if': 'اگر',
-  'it': 'یہ',
-  'many': 'کئی',
-  'with': 'کے ساتھ',
-  'each': 'ہر ایک',
-  'one': 'ایک',
-  'you': 'آپ',
-  'we': 'ہم',
-  'sat': 'بیٹھے',
-  'down': 'نیچے',
-  'figured': 'سمجھا',
-  'out': 'باہر',
-  '5': 'پانچ',
-  '7': 'سات',
-  'ideas': 'خیالات',
-  'people': 'لوگ',
-  'should': 'چاہیے',
-  'know': 'جاننا',
-  'about': 'کے بارے میں',
-  'your': 'آپ کا',
-  'startup': 'اسٹارٹ اپ',
-  'result': 'نتیجہ',
-  'slide': 'سلائیڈ',
-  'that': 'جو',
-  'no': 'نہیں',
-  'can': 'سکتا',
-  'easily': 'آسانی سے',
-  'without': 'کے بغیر',
-  'caption': 'کیپشن',
-  'you’d': 'آپ کو',
-  'have': 'ہونا',
-  'study': 'مطالعہ کرنا',
-  'graph': 'گراف',
-  'get': 'پانا',
-  'conclusion': 'نتیجہ',
-
-  // Business & software
-  'software': 'سافٹ ویئر',
-  'platform': 'پلیٹ فارم',
-  'application': 'ایپلیکیشن',
-  'product': 'پروڈکٹ',
-  'design': 'ڈیزائن',
-  'solution': 'حل',
-
-  // General
-  'team': 'ٹیم',
-  'growth': 'ترقی',
-  'future': 'مستقبل',
-  'success': 'کامیابی',
-  'guide': 'رہنما',
-  'advice': 'مشورہ',
-  'build': 'تعمیر کرنا',
-  'launch': 'آغاز',
-   'list': 'فہرست',
-  'what': 'کیا',
-  'michael': 'مائیکل',
-  'accomplished': 'حاصل کیا',
-  'for': 'کے لیے',
-  'miles': 'میل',
-  'long': 'طویل',
-  'something': 'کچھ',
-  'likely': 'امکاناً',
-  'played': 'ادا کیا',
-  'today': 'آج',
-  'we’re': 'ہم',
-  'kicking': 'آغاز کرنا',
-  'off': 'شروع',
-  'combinator’s': 'کمبینیٹر کا',
-  '38th': 'اڑتیسواں',
-  'celebrating': 'جشن منانا',
-  'incredible': 'ناقابل یقین',
-  'batch': 'بیچ',
-  'w24': 'ڈبلیو 24',
-  'marks': 'نشاندہی کرتا ہے',
-  'completion': 'تکمیل',
-  'my': 'میرا',
-  'first': 'پہلا',
-  'year': 'سال',
-  'as': 'بطور',
-  'president': 'صدر',
-  'amazing': 'شاندار',
-  'been': 'رہا ہے',
-  
-  'results': 'نتائج',
-  'was': 'تھا',
-  'able': 'قابل',
-  'generate': 'بنایا / پیدا کیا',
-  'a': 'ایک',
-  'schedule': 'شیڈول / نظام الاوقات',
-  'over': 'زیادہ',
-  '1300': '۱۳۰۰',
-  'meetings': 'ملاقاتیں',
-  'main': 'اہم',
-  'difference': 'فرق',
-  'investor': 'سرمایہ کار',
-  'scheduling': 'شیڈولنگ',
-  'problem': 'مسئلہ',
-    'so': 'اس لیے',
-  'matches': 'مقابلے / ملاپ',
-  'single': 'واحد',
-  'run': 'چلانا / بار',
-  'algorithm': 'الگورتھم',
-  'there': 'وہاں',
-  'are': 'ہیں',
-  'guarantees': 'ضمانتیں',
-  'optimal': 'بہترین / مثالی'
-
-};
-
-export const translateToUrdu = (text: string): string => {
+const WORD_PATTERN = /[A-Za-z0-9][A-Za-z0-9'’]*/g;
+
+function sourceWords(text: string): string[] {
+  return (text.match(WORD_PATTERN) || []).map(word => word.toLowerCase());
+}
+
+// Compares source and output word by word: any source word still present verbatim
+// in the output is treated as left untranslated.
+export function measureCoverage(source: string, translated: string): number {
+  const words = sourceWords(source);
+  if (words.length === 0) {
+    return 1;
+  }
+
+  const remaining: Record<string, number> = {};
+  sourceWords(translated).forEach(word => {
+    remaining[word] = (remaining[word] || 0) + 1;
+  });
+
+  const untranslated = words.filter(word => {
+    if (!remaining[word]) {
+      return false;
+    }
+    remaining[word]--;
+    return true;
+  }).length;
+
+  return (words.length - untranslated) / words.length;
+}
+
+// Glossary lookup, longest phrase first. Coverage counts words covered by glossary
+// hits, so words that are spelled the same in both languages still count as translated.
+export function translateWithGlossary(
+  text: string,
+  glossary: CompiledGlossary
+): { text: string; coverage: number } {
   if (!text || text.trim().length === 0) {
-    return '';
+    return { text: '', coverage: 1 };
   }
 
-  let translated = text;
+  const total = sourceWords(text).length;
+  let known = 0;
 
-  // Replace English terms with Urdu equivalents
-  Object.entries(translations).forEach(([english, urdu]) => {
-    const regex = new RegExp(`\\b${english}\\b`, 'gi'); // Word-boundary aware
-    translated = translated.replace(regex, urdu);
-  });
+  // Single pass over the text so replacements are never translated twice
+  const translated = text
+    .replace(glossary.pattern, match => {
+      const term = normaliseTerm(match);
+      if (Object.prototype.hasOwnProperty.call(glossary.terms, term)) {
+        known += sourceWords(match).length;
+        return glossary.terms[term];
+      }
+      return match;
+    })
+    .replace(/ {2,}/g, ' ')
+    .replace(/ ([.,!?;:])/g, '$1')
+    .trim();
+
+  return { text: translated, coverage: total === 0 ? 1 : Math.min(1, known / total) };
+}
+
+export function translateWithDictionary(
+  text: string,
+  language: LanguageCode
+): { text: string; coverage: number } {
+  return translateWithGlossary(text, builtinGlossary(language));
+}
+
+export const translateToUrdu = (text: string): string => translateWithDictionary(text, 'ur').text;
+
+export function createDictionaryTranslator(loadGlossary: GlossaryLoader = loadBuiltinGlossary): Translator {
+  return {
+    name: 'dictionary',
+    async translate(text, language) {
+      const glossary = await loadGlossary(language);
+      return { ...translateWithGlossary(text, glossary), language, provider: 'dictionary' };
+    }
+  };
+}
 
-  return translated;
-};
+async function postJson(url: string, body: unknown, config: TranslatorConfig, headers: Record<string, string> = {}): Promise<any> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), config.timeout);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: controller.signal
+    });
+    if (!response.ok) {
+      throw new Error(`Translation API error: ${response.status}`);
+    }
+    return await response.json();
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// LibreTranslate: sentences are sent as an array so each is translated as a whole
+export function createLibreTranslateTranslator(config: TranslatorConfig): Translator {
+  const endpoint = (config.endpoint || 'http://localhost:5000').replace(/\/+$/, '');
+
+  return {
+    name: 'libretranslate',
+    async translate(text, language) {
+      const sentences = text.match(/[^.!?]+(?:[.!?]+|$)/g)?.map(s => s.trim()).filter(Boolean) || [];
+      if (sentences.length === 0) {
+        return { text: '', language, provider: 'libretranslate', coverage: 1 };
+      }
+
+      const data = await postJson(`${endpoint}/translate`, {
+        q: sentences,
+        source: 'en',
+        target: language,
+        format: 'text',
+        ...(config.apiKey ? { api_key: config.apiKey } : {})
+      }, config);
+
+      const parts: string[] = Array.isArray(data.translatedText) ? data.translatedText : [data.translatedText];
+      const translated = parts.filter(Boolean).join(' ').trim();
+      return { text: translated, language, provider: 'libretranslate', coverage: measureCoverage(text, translated) };
+    }
+  };
+}
+
+// Any OpenAI-compatible chat completions endpoint
+export function createOpenAiTranslator(config: TranslatorConfig): Translator {
+  const endpoint = (config.endpoint || 'https://api.openai.com/v1').replace(/\/+$/, '');
+
+  return {
+    name: 'openai',
+    async translate(text, language) {
+      const data = await postJson(`${endpoint}/chat/completions`, {
+        model: config.model,
+        temperature: 0,
+        messages: [
+          {
+            role: 'system',
+            content: `Translate the user's English text into natural ${LANGUAGES[language].name}, sentence by sentence. Reply with the translation only.`
+          },
+          { role: 'user', content: text }
+        ]
+      }, config, config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {});
+
+      const translated = String(data.choices?.[0]?.message?.content || '').trim();
+      if (!translated) {
+        throw new Error('Translation API returned an empty response');
+      }
+      return { text: translated, language, provider: 'openai', coverage: measureCoverage(text, translated) };
+    }
+  };
+}
+
+export function getTranslatorConfig(): TranslatorConfig {
+  return {
+    provider: (process.env.TRANSLATOR_PROVIDER as TranslatorName) || 'dictionary',
+    endpoint: process.env.TRANSLATOR_ENDPOINT,
+    apiKey: process.env.TRANSLATOR_API_KEY,
+    model: process.env.TRANSLATOR_MODEL || 'gpt-4o-mini',
+    timeout: Number(process.env.TRANSLATOR_TIMEOUT_MS) || 30000
+  };
+}
+
+export function createTranslator(
+  config: TranslatorConfig = getTranslatorConfig(),
+  loadGlossary: GlossaryLoader = loadBuiltinGlossary
+): Translator {
+  switch (config.provider) {
+    case 'libretranslate':
+      return createLibreTranslateTranslator(config);
+    case 'openai':
+      return createOpenAiTranslator(config);
+    case 'dictionary':
+      return createDictionaryTranslator(loadGlossary);
+    default:
+      throw new Error(`Unknown translation provider: ${config.provider}`);
+  }
+}
+
+// Translates with the configured provider, falling back to the dictionary if it fails
+export async function translate(
+  text: string,
+  language: LanguageCode = 'ur',
+  translator: Translator = createTranslator(),
+  fallback: Translator = createDictionaryTranslator()
+): Promise<TranslationResult> {
+  if (!text || text.trim().length === 0) {
+    return { text: '', language, provider: translator.name, coverage: 1 };
+  }
+
+  try {
+    return await translator.translate(text, language);
+  } catch (error: any) {
+    if (translator.name === 'dictionary') {
+      throw error;
+    }
+    console.warn(`Translation to ${language} with ${translator.name} failed, falling back to dictionary:`, error.message);
+    const result = await fallback.translate(text, language);
+    return { ...result, fallbackReason: `${translator.name} failed: ${error.message || 'unknown error'}` };
+  }
+}
+
+// Translates into every requested language, keyed by language code
+export async function translateAll(
+  text: string,
+  languages: LanguageCode[],
+  translator: Translator = createTranslator(),
+  fallback: Translator = createDictionaryTranslator(),
+  onResult?: (result: TranslationResult) => void
+): Promise<Partial<Record<LanguageCode, TranslationResult>>> {
+  const results = await Promise.all(languages.map(async language => {
+    const result = await translate(text, language, translator, fallback);
+    onResult?.(result);
+    return result;
+  }));
+  const byLanguage: Partial<Record<LanguageCode, TranslationResult>> = {};
+  results.forEach(result => {
+    byLanguage[result.language] = result;
+  });
+  return byLanguage;
+}
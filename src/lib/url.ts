@@ -0,0 +1,50 @@
+// lib/url.ts - URL helpers shared by the scraper, pipeline and history
+
+// Hostname without a leading "www.", or '' for anything that is not a URL
+export function getDomain(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+// Query parameters that only track where a click came from and never change the page
+const TRACKING_PARAMS = [
+  /^utm_/i,
+  /^fbclid$/i,
+  /^gclid$/i,
+  /^dclid$/i,
+  /^msclkid$/i,
+  /^mc_(cid|eid)$/i,
+  /^_hs(enc|mi)$/i,
+  /^ref(_src)?$/i,
+  /^igshid$/i
+];
+
+// Canonical form of a URL used as a cache key: lower-case host, no default port,
+// no fragment, no tracking params, sorted query and no trailing slash.
+export function normaliseUrl(url: string): string {
+  try {
+    const urlObj = new URL(url.trim());
+    urlObj.hash = '';
+    urlObj.hostname = urlObj.hostname.toLowerCase();
+
+    const params: [string, string][] = [];
+    urlObj.searchParams.forEach((value, key) => {
+      if (!TRACKING_PARAMS.some(pattern => pattern.test(key))) {
+        params.push([key, value]);
+      }
+    });
+    params.sort((a, b) => (a[0] === b[0] ? a[1].localeCompare(b[1]) : a[0].localeCompare(b[0])));
+    urlObj.search = params.length > 0 ? '?' + new URLSearchParams(params).toString() : '';
+
+    if (urlObj.pathname.length > 1) {
+      urlObj.pathname = urlObj.pathname.replace(/\/+$/, '');
+    }
+
+    return urlObj.toString().replace(/\/(\?|$)/, '$1');
+  } catch {
+    return url.trim();
+  }
+}
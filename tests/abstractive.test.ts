@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LlmConfig, summariseAbstractive } from '@/lib/abstractive';
+import { readBody, startServer, TestServer } from './helpers/server';
+
+interface ChatRequest {
+  model: string;
+  messages: { role: string; content: string }[];
+}
+
+// An OpenAI-compatible /v1/chat/completions endpoint that answers with `reply(request)`
+function startLlm(reply: (request: ChatRequest) => string | number) {
+  const requests: ChatRequest[] = [];
+  const server = startServer(async (req, res) => {
+    const request = JSON.parse(await readBody(req)) as ChatRequest;
+    requests.push(request);
+    const answer = reply(request);
+    if (typeof answer === 'number') {
+      res.writeHead(answer, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { message: 'mock failure', type: 'server_error' } }));
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      id: `chatcmpl-${requests.length}`,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model: request.model,
+      choices: [{ index: 0, message: { role: 'assistant', content: answer }, finish_reason: 'stop' }]
+    }));
+  });
+  return { server, requests };
+}
+
+function config(server: TestServer, chunkSize = 10000): LlmConfig {
+  return { baseUrl: `${server.url}/v1`, model: 'mock-model', chunkSize, timeout: 5000 };
+}
+
+const ARTICLE = Array.from({ length: 12 }, (_, i) =>
+  `Sentence number ${i + 1} explains one more detail about how the team shipped the product.`
+).join(' ');
+
+describe('summariseAbstractive', () => {
+  let server: TestServer | undefined;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await server?.close();
+    server = undefined;
+  });
+
+  it('summarises short text in a single request', async () => {
+    const llm = startLlm(() => 'The team shipped the product.');
+    server = await llm.server;
+
+    const result = await summariseAbstractive(ARTICLE, { config: config(server), extractive: { sentences: 2 } });
+
+    expect(result).toEqual({ summary: 'The team shipped the product.', provider: 'llm', chunks: 1 });
+    expect(llm.requests).toHaveLength(1);
+    expect(llm.requests[0].model).toBe('mock-model');
+    expect(llm.requests[0].messages[0].content).toContain('in about 2 sentences');
+    expect(llm.requests[0].messages[1].content).toBe(ARTICLE);
+  });
+
+  it('maps over chunks and reduces their summaries', async () => {
+    const llm = startLlm(request =>
+      request.messages[0].content.indexOf('consecutive sections') !== -1 ? 'Whole post summary.' : 'Section summary.'
+    );
+    server = await llm.server;
+
+    const result = await summariseAbstractive(ARTICLE, { config: config(server, 200) });
+
+    expect(result.provider).toBe('llm');
+    expect(result.summary).toBe('Whole post summary.');
+    expect(result.chunks).toBeGreaterThan(1);
+    // One request per chunk, then one to combine them
+    expect(llm.requests).toHaveLength(result.chunks! + 1);
+    llm.requests.slice(0, result.chunks).forEach(request => {
+      expect(request.messages[1].content.length).toBeLessThanOrEqual(200);
+    });
+  });
+
+  it('falls back when summaries do not get shorter', async () => {
+    // Echoes the text back, so the combined section summaries never fit in a chunk
+    const llm = startLlm(request => request.messages[1].content);
+    server = await llm.server;
+
+    const result = await summariseAbstractive(ARTICLE, { config: config(server, 200), extractive: { sentences: 2 } });
+
+    expect(result.provider).toBe('extractive');
+    expect(result.fallbackReason).toContain('no shorter');
+    expect(result.summary).not.toBe('');
+    expect(llm.requests.length).toBeLessThan(20);
+  });
+
+  it('falls back to the extractive summary when the server fails', async () => {
+    const llm = startLlm(() => 500);
+    server = await llm.server;
+
+    const result = await summariseAbstractive(ARTICLE, { config: config(server), extractive: { sentences: 2 } });
+
+    expect(result.provider).toBe('extractive');
+    expect(result.fallbackReason).toMatch(/^LLM request failed/);
+    expect(result.summary).not.toBe('');
+  });
+
+  it('falls back when no provider is configured', async () => {
+    const result = await summariseAbstractive(ARTICLE, {
+      config: { model: 'unused', chunkSize: 10000, timeout: 1000 },
+      extractive: { sentences: 2 }
+    });
+
+    expect(result.provider).toBe('extractive');
+    expect(result.fallbackReason).toBe('No LLM provider is configured');
+  });
+});
@@ -0,0 +1,64 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { POST as addGlossaryEntry } from '@/app/api/glossary/route';
+import { DELETE as deleteGlossaryEntry } from '@/app/api/glossary/[id]/route';
+import { POST as importGlossary } from '@/app/api/glossary/import/route';
+import { DELETE as deleteSummary } from '@/app/api/summaries/[id]/route';
+import { DELETE as deleteFeed } from '@/app/api/feeds/[id]/route';
+import { createMemoryDriver } from '@/lib/drivers/memory';
+import { setStorage } from '@/lib/storage';
+
+const ADMIN_KEY = 'test-admin-key';
+const context = { params: Promise.resolve({ id: 'missing' }) };
+
+function request(method: string, key?: string, body?: unknown): Request {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (key) {
+    headers.authorization = `Bearer ${key}`;
+  }
+  return new Request('http://localhost/api/admin-test', { method, headers, body: body ? JSON.stringify(body) : undefined });
+}
+
+describe('admin routes', () => {
+  beforeAll(() => {
+    setStorage(createMemoryDriver());
+  });
+
+  beforeEach(() => {
+    vi.stubEnv('API_ADMIN_KEY', ADMIN_KEY);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  afterAll(() => {
+    setStorage(null);
+  });
+
+  const calls: [string, (key?: string) => Promise<Response>][] = [
+    ['POST /api/glossary', key => addGlossaryEntry(request('POST', key, { language: 'ur', source: 'blog', target: 'بلاگ' }))],
+    ['DELETE /api/glossary/:id', key => deleteGlossaryEntry(request('DELETE', key), context)],
+    ['POST /api/glossary/import', key => importGlossary(request('POST', key, { format: 'csv', data: 'ur,blog,بلاگ', mode: 'replace' }))],
+    ['DELETE /api/summaries/:id', key => deleteSummary(request('DELETE', key), context)],
+    ['DELETE /api/feeds/:id', key => deleteFeed(request('DELETE', key), context)]
+  ];
+
+  calls.forEach(([name, call]) => {
+    it(`${name} refuses anonymous callers and other keys`, async () => {
+      expect((await call()).status).toBe(401);
+      expect((await call('bsk_not-the-admin-key')).status).toBe(401);
+    });
+  });
+
+  it('refuses them all when no admin key is configured', async () => {
+    vi.stubEnv('API_ADMIN_KEY', '');
+    const statuses = await Promise.all(calls.map(([, call]) => call(ADMIN_KEY).then(response => response.status)));
+    expect(statuses).toEqual(calls.map(() => 403));
+  });
+
+  it('accepts the admin key', async () => {
+    expect((await deleteSummary(request('DELETE', ADMIN_KEY), context)).status).toBe(404);
+    expect((await deleteFeed(request('DELETE', ADMIN_KEY), context)).status).toBe(404);
+    expect((await addGlossaryEntry(request('POST', ADMIN_KEY, { language: 'ur', source: 'blog', target: 'بلاگ' }))).status).toBe(201);
+  });
+});
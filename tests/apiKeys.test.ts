@@ -0,0 +1,70 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ApiAccessConfig, authorizeRequest, clientIp, createApiKey, getApiAccessConfig } from '@/lib/apiKeys';
+import { createMemoryDriver } from '@/lib/drivers/memory';
+import { setStorage } from '@/lib/storage';
+
+function request(forwardedFor?: string, key?: string): Request {
+  const headers: Record<string, string> = {};
+  if (forwardedFor !== undefined) {
+    headers['x-forwarded-for'] = forwardedFor;
+  }
+  if (key) {
+    headers.authorization = `Bearer ${key}`;
+  }
+  return new Request('http://localhost/api/scrape', { headers });
+}
+
+function config(overrides: Partial<ApiAccessConfig> = {}): ApiAccessConfig {
+  return { ...getApiAccessConfig(), ...overrides };
+}
+
+describe('clientIp', () => {
+  it('takes the address the nearest proxy saw, not what the client claims', () => {
+    expect(clientIp(request('6.6.6.6, 203.0.113.7'), config())).toBe('203.0.113.7');
+  });
+
+  it('counts the configured number of proxies from the right', () => {
+    const chain = request('6.6.6.6, 203.0.113.7, 10.0.0.2');
+    expect(clientIp(chain, config({ trustedProxyHops: 2 }))).toBe('203.0.113.7');
+  });
+
+  it('uses the nearest hop when the header is shorter than the proxy chain', () => {
+    expect(clientIp(request('203.0.113.7'), config({ trustedProxyHops: 2 }))).toBe('203.0.113.7');
+  });
+
+  it('ignores X-Real-IP and empty headers', () => {
+    const req = new Request('http://localhost/', { headers: { 'x-real-ip': '6.6.6.6' } });
+    expect(clientIp(req, config())).toBe('unknown');
+    expect(clientIp(request(' , '), config())).toBe('unknown');
+  });
+});
+
+describe('authorizeRequest', () => {
+  beforeAll(() => {
+    setStorage(createMemoryDriver());
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    setStorage(null);
+  });
+
+  it('limits keyed requests per IP address across keys', async () => {
+    const limits = config({ keyRateLimit: 10, keyedIpRateLimit: 3, dailyQuota: 0 });
+    const first = await createApiKey({ name: 'first' });
+    const second = await createApiKey({ name: 'second' });
+
+    await authorizeRequest(request('198.51.100.1', first.secret), 'scrape', 1, limits);
+    await authorizeRequest(request('198.51.100.1', second.secret), 'scrape', 1, limits);
+    await authorizeRequest(request('198.51.100.1', first.secret), 'scrape', 1, limits);
+    await expect(authorizeRequest(request('198.51.100.1', second.secret), 'scrape', 1, limits))
+      .rejects.toMatchObject({ status: 429 });
+
+    // The keys themselves still have tokens left
+    const other = await authorizeRequest(request('198.51.100.2', second.secret), 'scrape', 1, limits);
+    expect(other).toEqual({ keyId: second.key.id, ip: '198.51.100.2' });
+  });
+});
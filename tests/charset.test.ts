@@ -0,0 +1,36 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { CharsetSource, decodeBody } from '@/lib/charset';
+
+// Documents saved in legacy encodings (tests/fixtures/charset) and what decodeBody should find
+interface CharsetCase {
+  file: string;
+  // Content-Type the document is served with; none when omitted
+  contentType?: string;
+  // false for documents that aren't HTML or XML, so markup declarations are ignored
+  markup?: boolean;
+  charset: string;
+  source: CharsetSource;
+  // Text that only decodes correctly in the right charset
+  contains: string;
+}
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'charset');
+const cases: CharsetCase[] = JSON.parse(readFileSync(path.join(FIXTURES, 'cases.json'), 'utf8'));
+
+describe('decodeBody fixtures', () => {
+  cases.forEach(fixture => {
+    it(fixture.file, () => {
+      const bytes = readFileSync(path.join(FIXTURES, fixture.file));
+      const decoded = decodeBody(bytes, fixture.contentType, fixture.markup !== false);
+
+      expect(decoded.charset).toBe(fixture.charset);
+      expect(decoded.source).toBe(fixture.source);
+      expect(decoded.text).toContain(fixture.contains);
+      expect(decoded.text).not.toContain('�');
+      // Byte order marks are dropped from the text
+      expect(decoded.text.charCodeAt(0)).not.toBe(0xfeff);
+    });
+  });
+});
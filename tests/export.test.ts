@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { ExportError, parseExportItems, renderExport } from '@/lib/export';
+
+const SUMMARY = 'The launch went well and sign-ups doubled in the first week.';
+
+describe('parseExportItems', () => {
+  it('accepts web pages, pasted text and uploads', () => {
+    const urls = ['https://blog.example/post', 'http://blog.example/post', 'paste://0123456789abcdef', 'upload://0123456789abcdef/notes.pdf'];
+    const items = parseExportItems(urls.map(url => ({ url, summary: SUMMARY })));
+    expect(items.map(item => item.url)).toEqual(urls);
+  });
+
+  it('refuses other URL schemes', () => {
+    ['javascript:alert(1)', 'data:text/html,<script>alert(1)</script>', 'file:///etc/passwd', 'blog.example/post'].forEach(url => {
+      expect(() => parseExportItems([{ url, summary: SUMMARY }])).toThrow(ExportError);
+    });
+  });
+});
+
+describe('renderExport', () => {
+  it('links only http(s) sources in HTML', async () => {
+    const items = parseExportItems([
+      { url: 'https://blog.example/post', summary: SUMMARY },
+      { url: 'paste://0123456789abcdef', summary: SUMMARY }
+    ]);
+    const html = (await renderExport(items, 'html')).body.toString('utf8');
+
+    expect(html).toContain('<a href="https://blog.example/post">');
+    expect(html).toContain('paste://0123456789abcdef');
+    expect(html).not.toContain('href="paste://');
+  });
+});
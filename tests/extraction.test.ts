@@ -0,0 +1,54 @@
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { extractPage } from '@/lib/scraper';
+
+// Saved pages in tests/fixtures/extraction, each with a .json file of what extraction should give:
+// text the content must and must not contain, and the range its confidence should fall in
+interface ExpectedExtraction {
+  title?: string;
+  author?: string;
+  contains: string[];
+  excludes: string[];
+  confidence: { min: number; max: number };
+}
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'extraction');
+
+const pages = readdirSync(FIXTURES)
+  .filter(file => file.endsWith('.html'))
+  .map(file => file.replace(/\.html$/, ''));
+
+describe('extractPage fixtures', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('has an expectation for every page', () => {
+    expect(pages.length).toBeGreaterThan(0);
+    pages.forEach(name => {
+      expect(readdirSync(FIXTURES)).toContain(`${name}.json`);
+    });
+  });
+
+  pages.forEach(name => {
+    it(name, () => {
+      const html = readFileSync(path.join(FIXTURES, `${name}.html`), 'utf8');
+      const expected: ExpectedExtraction = JSON.parse(readFileSync(path.join(FIXTURES, `${name}.json`), 'utf8'));
+
+      // A domain no site rule matches, so only the generic scoring is measured
+      const page = extractPage(html, `https://fixtures.test/${name}`);
+
+      expected.contains.forEach(text => expect(page.content).toContain(text));
+      expected.excludes.forEach(text => expect(page.content).not.toContain(text));
+      expect(page.confidence).toBeGreaterThanOrEqual(expected.confidence.min);
+      expect(page.confidence).toBeLessThanOrEqual(expected.confidence.max);
+      if (expected.title) {
+        expect(page.metadata.title).toBe(expected.title);
+      }
+      if (expected.author) {
+        expect(page.metadata.author).toBe(expected.author);
+      }
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import dns from 'dns';
+import zlib from 'zlib';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { checkUrl, FetchPolicy, getFetchPolicy, guardedGet } from '@/lib/fetchGuard';
+import { scrapeWithFallback } from '@/lib/scraper';
+import { startServer, TestServer } from './helpers/server';
+
+const ARTICLE = '<html><body><p>Hello from the test server.</p></body></html>';
+
+describe('guardedGet', () => {
+  let server: TestServer;
+  // Paths the server was asked for, to show refused requests never reach it
+  let requested: string[];
+
+  beforeAll(async () => {
+    server = await startServer((req, res) => {
+      // Requests that come through the server as a proxy carry the full URL
+      const url = new URL(req.url || '/', server.url);
+      requested.push(url.host === new URL(server.url).host ? url.pathname : url.href);
+
+      switch (url.pathname) {
+        case '/article':
+          res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+          res.end(ARTICLE);
+          return;
+        case '/to-metadata':
+          res.writeHead(302, { Location: 'http://169.254.169.254/latest/meta-data/' });
+          res.end();
+          return;
+        case '/to-loopback':
+          res.writeHead(301, { Location: `${server.url}/article` });
+          res.end();
+          return;
+        case '/to-article':
+          res.writeHead(302, { Location: '/article' });
+          res.end();
+          return;
+        case '/loop':
+          res.writeHead(302, { Location: '/loop' });
+          res.end();
+          return;
+        case '/large':
+          res.writeHead(200, { 'Content-Type': 'text/html' });
+          res.end(`<p>${'x'.repeat(64 * 1024)}</p>`);
+          return;
+        case '/bomb':
+          // Small on the wire, 1 MB once decompressed
+          res.writeHead(200, { 'Content-Type': 'text/html', 'Content-Encoding': 'gzip' });
+          res.end(zlib.gzipSync(Buffer.alloc(1024 * 1024, 'a')));
+          return;
+        case '/image':
+          res.writeHead(200, { 'Content-Type': 'image/png' });
+          res.end(Buffer.alloc(16));
+          return;
+        default:
+          res.writeHead(404, { 'Content-Type': 'text/html' });
+          res.end('<p>Not found</p>');
+      }
+    });
+  });
+
+  beforeEach(() => {
+    requested = [];
+    vi.stubEnv('FETCH_ALLOW_PRIVATE', '');
+    vi.stubEnv('FETCH_ALLOW_DOMAINS', '');
+    vi.stubEnv('FETCH_DENY_DOMAINS', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  // The test server is on 127.0.0.1, so checks other than the private-address one need it allowed
+  function localPolicy(overrides: Partial<FetchPolicy> = {}): FetchPolicy {
+    return { ...getFetchPolicy(), allowPrivate: true, ...overrides };
+  }
+
+  describe('private addresses', () => {
+    it('refuses loopback addresses', async () => {
+      await expect(guardedGet(`${server.url}/article`)).rejects.toMatchObject({ code: 'PRIVATE_ADDRESS', status: 403 });
+      expect(requested).toEqual([]);
+    });
+
+    it('refuses localhost', async () => {
+      const port = new URL(server.url).port;
+      await expect(guardedGet(`http://localhost:${port}/article`)).rejects.toMatchObject({ code: 'PRIVATE_ADDRESS' });
+      expect(requested).toEqual([]);
+    });
+
+    it('refuses host names that resolve to a private address', async () => {
+      vi.spyOn(dns.promises, 'lookup').mockResolvedValue([{ address: '127.0.0.1', family: 4 }] as any);
+      const port = new URL(server.url).port;
+
+      await expect(guardedGet(`http://blog.example:${port}/article`)).rejects.toMatchObject({ code: 'PRIVATE_ADDRESS' });
+      expect(requested).toEqual([]);
+    });
+
+    it('allows them when FETCH_ALLOW_PRIVATE is set', async () => {
+      vi.stubEnv('FETCH_ALLOW_PRIVATE', 'true');
+      const response = await guardedGet(`${server.url}/article`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.toString('utf8')).toBe(ARTICLE);
+    });
+  });
+
+  describe('redirects', () => {
+    // A public-looking host reached through the test server acting as an HTTP proxy, so the
+    // first hop passes the policy and the redirect target is what gets checked
+    beforeEach(() => {
+      vi.stubEnv('HTTP_PROXY', server.url);
+      vi.stubEnv('http_proxy', server.url);
+      vi.stubEnv('NO_PROXY', '');
+      vi.stubEnv('no_proxy', '');
+    });
+
+    it('follows redirects to allowed addresses', async () => {
+      const response = await guardedGet('http://blog.example/to-article');
+
+      expect(response.url).toBe('http://blog.example/article');
+      expect(response.body.toString('utf8')).toBe(ARTICLE);
+      expect(requested).toEqual(['http://blog.example/to-article', 'http://blog.example/article']);
+    });
+
+    it('refuses a redirect to the cloud metadata address', async () => {
+      await expect(guardedGet('http://blog.example/to-metadata')).rejects.toMatchObject({ code: 'PRIVATE_ADDRESS' });
+      expect(requested).toEqual(['http://blog.example/to-metadata']);
+    });
+
+    it('refuses a redirect to 127.0.0.1', async () => {
+      await expect(guardedGet('http://blog.example/to-loopback')).rejects.toMatchObject({ code: 'PRIVATE_ADDRESS' });
+      expect(requested).toEqual(['http://blog.example/to-loopback']);
+    });
+
+    it('stops after too many redirects', async () => {
+      await expect(guardedGet('http://blog.example/loop')).rejects.toMatchObject({ code: 'TOO_MANY_REDIRECTS', status: 502 });
+      expect(requested).toHaveLength(6);
+    });
+  });
+
+  describe('size limit', () => {
+    it('stops reading bodies over the limit', async () => {
+      await expect(guardedGet(`${server.url}/large`, {}, localPolicy({ maxBytes: 16 * 1024 })))
+        .rejects.toMatchObject({ code: 'RESPONSE_TOO_LARGE', status: 413 });
+    });
+
+    it('applies the limit after decompression', async () => {
+      await expect(guardedGet(`${server.url}/bomb`, {}, localPolicy({ maxBytes: 64 * 1024 })))
+        .rejects.toMatchObject({ code: 'RESPONSE_TOO_LARGE' });
+    });
+
+    it('reads bodies under the limit', async () => {
+      const response = await guardedGet(`${server.url}/article`, {}, localPolicy({ maxBytes: 16 * 1024 }));
+      expect(response.body.toString('utf8')).toBe(ARTICLE);
+    });
+  });
+
+  describe('content types', () => {
+    it('refuses types that are not on the list', async () => {
+      await expect(guardedGet(`${server.url}/image`, {}, localPolicy()))
+        .rejects.toMatchObject({ code: 'UNSUPPORTED_CONTENT_TYPE', status: 415 });
+    });
+
+    it('accepts configured types', async () => {
+      const response = await guardedGet(`${server.url}/image`, {}, localPolicy({ allowedTypes: ['image/png'] }));
+      expect(response.body).toHaveLength(16);
+    });
+  });
+
+  it('rejects HTTP errors with the response status', async () => {
+    await expect(guardedGet(`${server.url}/missing`, {}, localPolicy())).rejects.toMatchObject({ response: { status: 404 } });
+  });
+});
+
+describe('checkUrl', () => {
+  const policy = (overrides: Partial<FetchPolicy> = {}): FetchPolicy => ({ ...getFetchPolicy(), ...overrides });
+
+  it('refuses other protocols and malformed URLs', () => {
+    expect(() => checkUrl('file:///etc/passwd', policy())).toThrow(expect.objectContaining({ code: 'UNSUPPORTED_PROTOCOL' }));
+    expect(() => checkUrl('not a url', policy())).toThrow(expect.objectContaining({ code: 'INVALID_URL' }));
+  });
+
+  it('refuses private IPv4 and IPv6 literals', () => {
+    ['http://10.0.0.1/', 'http://169.254.169.254/', 'http://[::1]/', 'http://[::ffff:127.0.0.1]/', 'http://[fd00::2]/'].forEach(url => {
+      expect(() => checkUrl(url, policy())).toThrow(expect.objectContaining({ code: 'PRIVATE_ADDRESS' }));
+    });
+  });
+
+  it('applies the domain lists to subdomains', () => {
+    expect(() => checkUrl('https://ads.tracker.example/', policy({ denyDomains: ['tracker.example'] })))
+      .toThrow(expect.objectContaining({ code: 'DOMAIN_DENIED' }));
+    expect(() => checkUrl('https://other.example/', policy({ allowDomains: ['blog.example'] })))
+      .toThrow(expect.objectContaining({ code: 'DOMAIN_NOT_ALLOWED' }));
+    expect(checkUrl('https://www.blog.example/post', policy({ allowDomains: ['blog.example'] })).hostname).toBe('www.blog.example');
+  });
+});
+
+describe('scrapeWithFallback', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reports policy refusals instead of demo content', async () => {
+    const result = await scrapeWithFallback('http://169.254.169.254/latest/meta-data/');
+
+    expect(result.success).toBe(false);
+    expect(result.errorCode).toBe('PRIVATE_ADDRESS');
+  });
+
+  it('serves sample content for demo URLs', async () => {
+    const result = await scrapeWithFallback('demo://sample');
+
+    expect(result.success).toBe(true);
+    expect(result.content).not.toBe('');
+  });
+});
@@ -0,0 +1,37 @@
+// tests/helpers/server.ts - Local HTTP servers for tests that fetch over the network
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+export interface TestServer {
+  // e.g. http://127.0.0.1:54321
+  url: string;
+  close(): Promise<void>;
+}
+
+// Starts a server on a free port of 127.0.0.1
+export function startServer(handler: http.RequestListener): Promise<TestServer> {
+  const server = http.createServer(handler);
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        close: () => new Promise<void>(done => {
+          server.closeAllConnections();
+          server.close(() => done());
+        })
+      });
+    });
+  });
+}
+
+export function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
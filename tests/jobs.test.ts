@@ -0,0 +1,69 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { POST as createJobRoute } from '@/app/api/jobs/route';
+import { createApiKey, getApiUsage } from '@/lib/apiKeys';
+import { getJob, jobRepository } from '@/lib/jobs';
+import { runPipeline } from '@/lib/pipeline';
+import { createMemoryDriver } from '@/lib/drivers/memory';
+import { setStorage } from '@/lib/storage';
+
+vi.mock('@/lib/pipeline', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/pipeline')>()),
+  runPipeline: vi.fn()
+}));
+
+describe('getJob', () => {
+  beforeAll(() => {
+    setStorage(createMemoryDriver());
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+    setStorage(null);
+  });
+
+  it('resumes an interrupted job once when it is read concurrently', async () => {
+    vi.mocked(runPipeline).mockResolvedValue({
+      success: true,
+      summary: 'Done',
+      timings: { scrape: 0, summarise: 0, translate: 0, save: 0, total: 0 }
+    });
+    const now = new Date();
+    // Left running by a process that stopped
+    const stored = await jobRepository().insert({
+      status: 'running',
+      options: {},
+      items: [{ url: 'https://blog.example/post', status: 'running', attempts: 1 }],
+      createdAt: now,
+      updatedAt: now
+    });
+
+    const [first, second] = await Promise.all([getJob(stored.id), getJob(stored.id)]);
+    expect(second).toBe(first);
+
+    await vi.waitFor(() => expect(first?.status).toBe('completed'));
+    expect(runPipeline).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('POST /api/jobs', () => {
+  beforeAll(() => {
+    setStorage(createMemoryDriver());
+  });
+
+  afterAll(() => {
+    setStorage(null);
+  });
+
+  it('does not charge the quota for requests with invalid options', async () => {
+    const { key, secret } = await createApiKey({ name: 'batch' });
+    const response = await createJobRoute(new Request('http://localhost/api/jobs', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', authorization: `Bearer ${secret}` },
+      body: JSON.stringify({ urls: ['https://blog.example/a', 'https://blog.example/b'], maxPages: 0 })
+    }));
+
+    expect(response.status).toBe(400);
+    expect(await getApiUsage(key.id)).toEqual([]);
+  });
+});
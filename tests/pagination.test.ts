@@ -0,0 +1,34 @@
+import * as cheerio from 'cheerio';
+import { describe, expect, it } from 'vitest';
+import { findNextPage } from '@/lib/pagination';
+
+function nextPage(html: string, url: string): string | undefined {
+  return findNextPage(cheerio.load(html), url);
+}
+
+describe('findNextPage', () => {
+  it('follows rel="next" to the following page of the article', () => {
+    const html = '<head><link rel="next" href="https://blog.example/2024/05/long-read/2/"></head><body><p>Page one</p></body>';
+    expect(nextPage(html, 'https://blog.example/2024/05/long-read/')).toBe('https://blog.example/2024/05/long-read/2/');
+  });
+
+  it('ignores rel="next" links between posts', () => {
+    const html = `<head><link rel="next" href="https://blog.example/2024/05/post-b/"></head><body>
+<article><p>Post A</p></article>
+<nav class="post-navigation">
+  <a rel="prev" href="/2024/04/post-z/">Previous post</a>
+  <a rel="next" href="/2024/05/post-b/">Next post: Post B</a>
+</nav></body>`;
+    expect(nextPage(html, 'https://blog.example/2024/05/post-a/')).toBeUndefined();
+  });
+
+  it('ignores rel="next" labelled as a post even when the URL is numbered', () => {
+    const html = '<a rel="next" href="/posts/2">Next post</a>';
+    expect(nextPage(html, 'https://blog.example/posts/1')).toBeUndefined();
+  });
+
+  it('follows numbered "Next" links', () => {
+    const html = '<p>Text</p><a href="?page=2">Next page</a>';
+    expect(nextPage(html, 'https://news.example/story')).toBe('https://news.example/story?page=2');
+  });
+});
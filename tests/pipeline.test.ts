@@ -0,0 +1,40 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryDriver } from '@/lib/drivers/memory';
+import { runTextPipeline } from '@/lib/pipeline';
+import { setStorage } from '@/lib/storage';
+
+// A page copied from a legacy-encoded site keeps its declaration, but the text is already Unicode
+const PASTED_PAGE = `<html><head><meta charset="windows-1252"><title>Café notes</title></head><body><article>
+<p>The new café on the corner serves “proper” coffee and the owners say it is déjà a neighbourhood favourite.</p>
+<p>Regulars queue from seven in the morning, and the pastries sell out before the lunch crowd arrives.</p>
+<p>The owners plan to open a second café across town next spring if the first one keeps growing.</p>
+</article></body></html>`;
+
+describe('runTextPipeline', () => {
+  beforeAll(() => {
+    setStorage(createMemoryDriver());
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    setStorage(null);
+  });
+
+  [undefined, 'html' as const].forEach(format => {
+    it(`reads pasted HTML as UTF-8 whatever it declares (format ${format || 'sniffed'})`, async () => {
+      const result = await runTextPipeline(PASTED_PAGE, format, { languages: [] });
+
+      expect(result.success).toBe(true);
+      expect(result.sourceType).toBe('html');
+      expect(result.content).toContain('The new café on the corner serves “proper” coffee');
+      expect(result.content).not.toContain('Ã');
+    });
+  });
+});
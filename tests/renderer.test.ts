@@ -0,0 +1,126 @@
+import { existsSync } from 'fs';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { closeRenderer, RenderError, renderPage } from '@/lib/renderer';
+import { scrapeBlogText } from '@/lib/scraper';
+import { startServer, TestServer } from './helpers/server';
+
+const PARAGRAPHS = [
+  'The launch went better than anyone on the team expected, with sign-ups doubling in the first week.',
+  'Most of the new users came from a single post on a developer forum, which surprised the marketing team.',
+  'We are now hiring two more engineers to keep up with the support load and the feature requests.'
+];
+
+// The article is only in the page once its script has run
+const SCRIPTED_PAGE = `<!DOCTYPE html><html><head><title>Launch notes</title></head><body>
+<div id="app">Loading...</div>
+<script>
+  document.getElementById('app').innerHTML = '<article>' + ${JSON.stringify(PARAGRAPHS)}
+    .map(function (text) { return '<p>' + text + '</p>'; }).join('') + '</article>';
+</script>
+</body></html>`;
+
+const STATIC_PAGE = `<!DOCTYPE html><html><head><title>Static notes</title></head><body>
+<article>${PARAGRAPHS.map(text => `<p>${text}</p>`).join('')}</article>
+</body></html>`;
+
+function chromiumPath(): string | undefined {
+  if (process.env.CHROMIUM_PATH) {
+    return process.env.CHROMIUM_PATH;
+  }
+  try {
+    return require('playwright-core').chromium.executablePath();
+  } catch {
+    return undefined;
+  }
+}
+
+const executable = chromiumPath();
+const hasChromium = Boolean(executable && existsSync(executable));
+
+describe('renderer', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startServer((req, res) => {
+      const path = new URL(req.url || '/', server.url).pathname;
+      if (path === '/missing') {
+        res.writeHead(404, { 'Content-Type': 'text/html' });
+        res.end('<p>Not here</p>');
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+      res.end(path === '/static' ? STATIC_PAGE : SCRIPTED_PAGE);
+    });
+  });
+
+  beforeEach(() => {
+    // The test server is on 127.0.0.1, which the fetch policy refuses by default
+    vi.stubEnv('FETCH_ALLOW_PRIVATE', 'true');
+    vi.stubEnv('ROBOTS_TXT', 'ignore');
+    vi.stubEnv('HOST_DELAY_MS', '0');
+    vi.stubEnv('RENDERER', 'playwright');
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await closeRenderer();
+    await server.close();
+  });
+
+  it('refuses to render when the renderer is disabled', async () => {
+    vi.stubEnv('RENDERER', '');
+    await expect(renderPage(`${server.url}/`)).rejects.toBeInstanceOf(RenderError);
+  });
+
+  it('checks the page against the fetch policy before starting the browser', async () => {
+    vi.stubEnv('FETCH_ALLOW_PRIVATE', '');
+    await expect(renderPage(`${server.url}/`)).rejects.toMatchObject({ code: 'PRIVATE_ADDRESS' });
+  });
+
+  it('fetches statically when rendering is forced but disabled', async () => {
+    vi.stubEnv('RENDERER', '');
+    const result = await scrapeBlogText(`${server.url}/static?disabled`, { render: 'always', retries: 1 });
+
+    expect(result.success).toBe(true);
+    expect(result.rendered).toBe(false);
+    expect(result.content).toContain(PARAGRAPHS[0]);
+  });
+
+  describe.skipIf(!hasChromium)('with Chromium', () => {
+    beforeEach(() => {
+      vi.stubEnv('CHROMIUM_PATH', executable!);
+    });
+
+    it('returns the HTML after scripts have run', async () => {
+      const html = await renderPage(`${server.url}/`, { waitUntil: 'load' });
+      expect(html).toContain(PARAGRAPHS[1]);
+      expect(html).not.toContain('Loading...');
+    });
+
+    it('reports HTTP errors from the page', async () => {
+      await expect(renderPage(`${server.url}/missing`, { waitUntil: 'load' })).rejects.toThrow('HTTP 404');
+    });
+
+    it('renders when forced', async () => {
+      const result = await scrapeBlogText(`${server.url}/?forced`, { render: 'always', retries: 1 });
+
+      expect(result.success).toBe(true);
+      expect(result.rendered).toBe(true);
+      expect(result.content).toContain(PARAGRAPHS[2]);
+    });
+
+    it('falls back to the browser when the static HTML has too little text', async () => {
+      const result = await scrapeBlogText(`${server.url}/?auto`, { retries: 1 });
+
+      expect(result.success).toBe(true);
+      expect(result.rendered).toBe(true);
+      expect(result.content).toContain(PARAGRAPHS[0]);
+    });
+  });
+});
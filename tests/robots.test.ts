@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { isAllowed, parseRobots, policyFor } from '@/lib/robots';
+
+const USER_AGENT = 'BlogSummarizerBot/1.0 (+https://github.com/example/blog-summarizer)';
+
+describe('policyFor', () => {
+  it('uses the group naming the product token, in any case', () => {
+    const robots = parseRobots('User-agent: *\nDisallow: /\n\nUser-agent: blogsummarizerbot\nDisallow: /private/\n');
+    const policy = policyFor(robots, USER_AGENT);
+
+    expect(isAllowed(policy, 'https://blog.example/post')).toBe(true);
+    expect(isAllowed(policy, 'https://blog.example/private/post')).toBe(false);
+  });
+
+  it('ignores groups whose name is only part of the product token', () => {
+    // "bot" and "Blog" are substrings of the token, so a substring match would pick these groups
+    const robots = parseRobots('User-agent: bot\nUser-agent: Blog\nAllow: /\n\nUser-agent: *\nDisallow: /drafts/\n');
+    const policy = policyFor(robots, USER_AGENT);
+
+    expect(isAllowed(policy, 'https://blog.example/drafts/post')).toBe(false);
+  });
+});
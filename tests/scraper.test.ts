@@ -0,0 +1,88 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { decodeBody } from '@/lib/charset';
+import { clearScrapeCache, scrapeBlogText } from '@/lib/scraper';
+import { startServer, TestServer } from './helpers/server';
+
+const ARTICLE = `<!DOCTYPE html><html><head><title>Launch notes</title></head><body><article>
+<p>The launch went better than anyone on the team expected, with sign-ups doubling in the first week.</p>
+<p>Most of the new users came from a single post on a developer forum, which surprised the marketing team.</p>
+<p>We are now hiring two more engineers to keep up with the support load and the feature requests.</p>
+</article></body></html>`;
+
+vi.mock('@/lib/charset', async importOriginal => {
+  const charset = await importOriginal<typeof import('@/lib/charset')>();
+  return { ...charset, decodeBody: vi.fn(charset.decodeBody) };
+});
+
+describe('scrapeBlogText', () => {
+  let server: TestServer;
+  let requests: number;
+
+  beforeAll(async () => {
+    server = await startServer((req, res) => {
+      requests++;
+      if (req.url?.endsWith('.pdf')) {
+        res.writeHead(200, { 'Content-Type': 'application/pdf' });
+        res.end('%PDF-1.4\n%%EOF\n');
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+      res.end(ARTICLE);
+    });
+  });
+
+  beforeEach(() => {
+    requests = 0;
+    clearScrapeCache();
+    // The test server is on 127.0.0.1, which the fetch policy refuses by default
+    vi.stubEnv('FETCH_ALLOW_PRIVATE', 'true');
+    vi.stubEnv('ROBOTS_TXT', 'ignore');
+    vi.stubEnv('HOST_DELAY_MS', '0');
+    vi.stubEnv('RENDERER', '');
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.mocked(decodeBody).mockClear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it('serves repeated scrapes from the cache', async () => {
+    const first = await scrapeBlogText(`${server.url}/post`, { retries: 1 });
+    const second = await scrapeBlogText(`${server.url}/post`, { retries: 1 });
+
+    expect(first.cache).toBe('miss');
+    expect(second.cache).toBe('hit');
+    expect(second.content).toBe(first.content);
+    expect(requests).toBe(1);
+  });
+
+  it('fetches again when the page limit or render mode is not the default', async () => {
+    await scrapeBlogText(`${server.url}/post`, { retries: 1 });
+
+    const onePage = await scrapeBlogText(`${server.url}/post`, { retries: 1, maxPages: 1 });
+    const noBrowser = await scrapeBlogText(`${server.url}/post`, { retries: 1, render: 'never' });
+    expect(onePage.cache).toBe('miss');
+    expect(noBrowser.cache).toBe('miss');
+    expect(requests).toBe(3);
+
+    // Neither replaced the entry for the default settings
+    const again = await scrapeBlogText(`${server.url}/post`, { retries: 1 });
+    expect(again.cache).toBe('hit');
+    expect(requests).toBe(3);
+  });
+
+  it('decodes HTML responses but not PDFs', async () => {
+    await scrapeBlogText(`${server.url}/paper.pdf`, { retries: 1 });
+    expect(decodeBody).not.toHaveBeenCalled();
+
+    await scrapeBlogText(`${server.url}/post`, { retries: 1 });
+    expect(decodeBody).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,46 @@
+import { promises as fs, mkdtempSync, readFileSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { MongoClient } from 'mongodb';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createFileDriver } from '@/lib/drivers/file';
+import { createMongoDriver } from '@/lib/drivers/mongo';
+
+describe('file driver', () => {
+  let dir: string;
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps saving after a write fails', async () => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'storage-'));
+    const file = path.join(dir, 'storage.json');
+    const notes = createFileDriver(file).collection<{ text: string }>('notes');
+    const writeFile = fs.writeFile;
+    vi.spyOn(fs, 'writeFile').mockImplementationOnce(() => Promise.reject(new Error('disk full')));
+
+    await expect(notes.insert({ text: 'first' })).rejects.toThrow('disk full');
+    vi.mocked(fs.writeFile).mockImplementation(writeFile);
+    await notes.insert({ text: 'second' });
+
+    const saved = JSON.parse(readFileSync(file, 'utf8'));
+    expect(saved.notes.map((note: { text: string }) => note.text)).toEqual(['first', 'second']);
+  });
+});
+
+describe('mongo driver', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('connects again after a failed connection', async () => {
+    const connect = vi.spyOn(MongoClient.prototype, 'connect').mockRejectedValue(new Error('connection refused'));
+    const notes = createMongoDriver('mongodb://127.0.0.1:1', 'test').collection<{ text: string }>('notes');
+
+    await expect(notes.findMany()).rejects.toThrow('connection refused');
+    await expect(notes.findMany()).rejects.toThrow('connection refused');
+    expect(connect).toHaveBeenCalledTimes(2);
+  });
+});
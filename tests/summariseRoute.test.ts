@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runPipeline } from '@/lib/pipeline';
+import { POST } from '@/app/api/summarise/route';
+
+vi.mock('@/lib/pipeline', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/pipeline')>()),
+  runPipeline: vi.fn()
+}));
+
+function post(body: BodyInit, headers: Record<string, string> = {}): Request {
+  return new Request('http://localhost/api/summarise', { method: 'POST', body, headers });
+}
+
+describe('POST /api/summarise', () => {
+  beforeEach(() => {
+    vi.stubEnv('API_IP_RATE_LIMIT', '0');
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('ends the stream with an error line when the pipeline fails', async () => {
+    vi.mocked(runPipeline).mockImplementation(async (_url, _options, onProgress) => {
+      onProgress?.({ stage: 'scraping', event: { type: 'stage', stage: 'scraping' }, progress: 0 });
+      throw new Error('storage is down');
+    });
+
+    const response = await POST(post(JSON.stringify({ url: 'https://blog.example/post', stream: true }), {
+      'Content-Type': 'application/json'
+    }));
+    const lines = (await response.text()).trim().split('\n').map(line => JSON.parse(line));
+
+    expect(lines[0].type).toBe('progress');
+    expect(lines[lines.length - 1]).toEqual({ type: 'error', error: 'Server error' });
+  });
+
+  it('refuses malformed options in an upload with 400', async () => {
+    const form = new FormData();
+    form.append('file', new Blob(['Some notes'], { type: 'text/plain' }), 'notes.txt');
+    form.append('options', '{ not json');
+
+    const response = await POST(post(form));
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toMatch(/"options"/);
+  });
+
+  it('refuses a malformed JSON body with 400', async () => {
+    const response = await POST(post('{ not json', { 'Content-Type': 'application/json' }));
+    expect(response.status).toBe(400);
+  });
+});